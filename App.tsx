@@ -1,18 +1,91 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Scan, List, BarChart3, Settings, User, ArrowRight, X, Download, Lock, Eye, EyeOff } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Scan, List, BarChart3, Settings, User, ArrowRight, X, Download, MapPin, ScanBarcode, Cloud, CloudOff, Layers } from 'lucide-react';
 import ScannerInput from './components/ScannerInput';
 import StatusFeedback from './components/StatusFeedback';
 import HistoryList from './components/HistoryList';
 import StockStatus from './components/StockStatus';
 import AdminDashboard from './components/AdminDashboard';
 import ScanResultOverlay from './components/ScanResultOverlay';
-import { InventoryRecord, ScanStatus, MasterItem } from './types';
+import LoginScreen from './components/LoginScreen';
+import HighlightText from './components/HighlightText';
+import WedgeScanner from './components/WedgeScanner';
+import BatchScanPanel from './components/BatchScanPanel';
+import LookupPicker from './components/LookupPicker';
+import { InventoryRecord, ScanStatus, InventorySession, ScanMode, SyncState, MasterItem, BatchScanItem, ResolvedPayload } from './types';
 import { db } from './utils/db';
+import { MasterSearchHit } from './utils/search';
+import { SESSION_STATUS_LABELS } from './utils/session';
+import { ROLE_LABELS, canManage, canScan } from './utils/auth';
+import { SYNC_INTERVAL_MS, getSyncUrl, setSyncUrl, syncNow } from './utils/sync';
+import { ReportFormat, ReportSheet, SCANNED_REPORT_HEADER, downloadReport, scannedReportRow } from './utils/spreadsheet';
+import { categoryReporter } from './utils/categories';
+import { loadPayloadRules } from './utils/payload';
 
 const generateId = () => Math.random().toString(36).substr(2, 9);
 
 type View = 'SCAN' | 'LIST' | 'STATUS' | 'ADMIN';
 
+// What a scanned label said besides which part it is
+type ScanLabel = Pick<ResolvedPayload, 'quantity' | 'serial' | 'matchedBy'>;
+
+// A label whose identifier belongs to several parts, waiting for the operator to pick one
+interface PendingPick {
+  code: string;
+  resolved: ResolvedPayload;
+  batch: boolean;
+}
+
+// Shelf labels carry this prefix so they can be told apart from part barcodes
+const LOCATION_PREFIX = 'LOC:';
+
+const normalizeLocation = (loc?: string) => (loc || '').trim().toUpperCase();
+
+// A new scan snapshotting master data; a part found away from its master location is Misplaced
+const createRecord = (
+  partId: string,
+  masterItem: MasterItem | undefined,
+  { sessionId, scannedBy, quantity, location, label }:
+    { sessionId: string, scannedBy: string, quantity: number, location: string, label: ScanLabel }
+): InventoryRecord => {
+  let status: ScanStatus = masterItem ? 'OK' : 'Not Found';
+  if (masterItem && location && masterItem.Location &&
+      normalizeLocation(masterItem.Location) !== normalizeLocation(location)) {
+    status = 'Misplaced';
+  }
+
+  return {
+    id: generateId(),
+    InventoryDate: Date.now(),
+    Status: status,
+    scannedBy,
+    sessionId,
+    Quantity: quantity,
+    MatchedBy: label.matchedBy,
+    
+    PartID: partId,
+    // A Not Found scan keeps the serial printed on the label
+    VendorSN: masterItem?.VendorSN || label.serial || '',
+    Project: masterItem?.Project || '',
+    Class: masterItem?.Class || '',
+    Location: masterItem?.Location || '',
+    FoundLocation: location,
+    Vendor: masterItem?.Vendor || '',
+    VendorPN: masterItem?.VendorPN || '',
+    CustomerPN: masterItem?.CustomerPN || '',
+    Description: masterItem?.Description || ''
+  };
+};
+
+const sessionBlockedMessage = (session?: InventorySession) =>
+  session ? `場次「${session.name}」${SESSION_STATUS_LABELS[session.status]}，無法掃描。` : '請先於管理頁建立盤點場次。';
+
+const SCAN_MODES: { mode: ScanMode, label: string }[] = [
+  { mode: 'SERIAL', label: '單件' },
+  { mode: 'COUNT', label: '累加' },
+  { mode: 'PROMPT', label: '輸入數量' }
+];
+
 // --- Sound Utility ---
 const playSound = (type: 'success' | 'error' | 'warning') => {
   const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
@@ -74,61 +147,109 @@ const playSound = (type: 'success' | 'error' | 'warning') => {
 
 function App() {
   // --- Auth State ---
-  const [isAuthenticated, setIsAuthenticated] = useState(() => {
-      return localStorage.getItem('zen_auth') === 'true';
-  });
-  const [passwordInput, setPasswordInput] = useState('');
-  const [authError, setAuthError] = useState(false);
-  const [showPassword, setShowPassword] = useState(false);
+  // Login lasts for the browser tab; the account is resolved from the live table
+  // so role changes and removals by an admin apply immediately
+  const accounts = useLiveQuery(() => db.getUsers(), []);
+  const [authUserName, setAuthUserName] = useState<string | null>(() => sessionStorage.getItem('zen_auth_user'));
+  const currentAccount = accounts?.find(a => a.name === authUserName && a.pinHash);
+  const currentUser = currentAccount?.name || '';
+  const role = currentAccount?.role;
 
   // UI State
   const [currentView, setCurrentView] = useState<View>('SCAN');
   const [isScanning, setIsScanning] = useState(false);
-  const [hasSelectedUser, setHasSelectedUser] = useState(false); 
+  const [scanMode, setScanMode] = useState<ScanMode>(() => (localStorage.getItem('zen_scan_mode') as ScanMode) || 'SERIAL');
+  const [scanTarget, setScanTarget] = useState<'PART' | 'LOCATION'>('PART');
+  const [currentLocation, setCurrentLocation] = useState(() => localStorage.getItem('zen_current_location') || '');
+  const [locationInput, setLocationInput] = useState('');
   
   // Overlay State
   const [showOverlay, setShowOverlay] = useState(false);
   const [overlayRecord, setOverlayRecord] = useState<InventoryRecord | undefined>(undefined);
   const [overlayStatus, setOverlayStatus] = useState<ScanStatus | 'IDLE'>('IDLE');
   
-  // User Management
-  const [users, setUsers] = useState<string[]>(() => {
-    try {
-      const s = localStorage.getItem('zen_users');
-      const parsed = s ? JSON.parse(s) : null;
-      return (Array.isArray(parsed) && parsed.length > 0) 
-        ? parsed 
-        : ['Kayra', 'Lynn', 'Jamilla', 'Hannah', 'Devin'];
-    } catch (e) {
-      return ['Kayra', 'Lynn', 'Jamilla', 'Hannah', 'Devin'];
-    }
-  });
-  const [currentUser, setCurrentUser] = useState(() => localStorage.getItem('zen_current_user') || users[0]);
-
-  const [records, setRecords] = useState<InventoryRecord[]>(() => {
-    const saved = localStorage.getItem('zen_records');
-    return saved ? JSON.parse(saved) : [];
-  });
+  // Sessions: the viewed one defaults to the active (non-closed) campaign
+  const sessions = useLiveQuery(() => db.getSessions(), [], [] as InventorySession[]);
+  const [viewedSessionId, setViewedSessionId] = useState<string | null>(null);
+  const activeSession = sessions.find(s => s.status !== 'closed');
+  const session = sessions.find(s => s.id === viewedSessionId) || activeSession;
+  const sessionId = session?.id || '';
+
+  // Records live in IndexedDB; only the summary the scan view needs is queried here
+  const recentRecords = useLiveQuery(
+    () => db.getRecentRecords(sessionId, 3),
+    [sessionId], [] as InventoryRecord[]
+  );
+  const recordCount = useLiveQuery(() => db.countRecords(sessionId), [sessionId], 0);
   
+  // Team sync with the optional LAN server; changes queue locally while it is unreachable
+  const [syncUrl, setSyncUrlState] = useState(getSyncUrl);
+  const [syncState, setSyncState] = useState<SyncState>({ online: false, devices: [] });
+  const syncPending = useLiveQuery(() => db.syncQueue.count(), [], 0);
+
   const [lastScanStatus, setLastScanStatus] = useState<ScanStatus | 'IDLE'>('IDLE');
   const [lastRecord, setLastRecord] = useState<InventoryRecord | undefined>(undefined);
   
   // Manual Input & Autocomplete State
   const [manualInput, setManualInput] = useState('');
-  const [suggestions, setSuggestions] = useState<MasterItem[]>([]);
+  const [suggestions, setSuggestions] = useState<MasterSearchHit[]>([]);
   const [showSuggestions, setShowSuggestions] = useState(false);
 
+  // Batch camera mode: parts collect in the scanner view and are written together
+  const [batchMode, setBatchMode] = useState(false);
+  const [batchItems, setBatchItems] = useState<BatchScanItem[]>([]);
+  const [isCommittingBatch, setIsCommittingBatch] = useState(false);
+  const batchCodesRef = useRef(new Set<string>());
+  const isBatchScan = batchMode && scanTarget === 'PART';
+  // Queued so codes decoded together in batch mode each get their turn
+  const [pendingPicks, setPendingPicks] = useState<PendingPick[]>([]);
+
   useEffect(() => {
-    localStorage.setItem('zen_records', JSON.stringify(records));
-  }, [records]);
+    if (authUserName) sessionStorage.setItem('zen_auth_user', authUserName);
+    else sessionStorage.removeItem('zen_auth_user');
+  }, [authUserName]);
 
   useEffect(() => {
-    localStorage.setItem('zen_users', JSON.stringify(users));
-  }, [users]);
+    localStorage.setItem('zen_scan_mode', scanMode);
+  }, [scanMode]);
 
   useEffect(() => {
-    localStorage.setItem('zen_current_user', currentUser);
-  }, [currentUser]);
+    localStorage.setItem('zen_current_location', currentLocation);
+  }, [currentLocation]);
+
+  // Push/pull on an interval and as soon as the network comes back
+  useEffect(() => {
+    if (!syncUrl || !currentUser) return;
+    let cancelled = false;
+    let running = false;
+
+    const tick = async () => {
+      if (running) return;
+      running = true;
+      try {
+        const devices = await syncNow(currentUser);
+        if (!cancelled) setSyncState({ online: true, lastSync: Date.now(), devices });
+      } catch (e: any) {
+        if (!cancelled) setSyncState(prev => ({ ...prev, online: false, error: e.message }));
+      }
+      running = false;
+    };
+
+    tick();
+    const timer = setInterval(tick, SYNC_INTERVAL_MS);
+    window.addEventListener('online', tick);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+      window.removeEventListener('online', tick);
+    };
+  }, [syncUrl, currentUser]);
+
+  const handleSyncUrlChange = async (input: string) => {
+    const url = await setSyncUrl(input);
+    setSyncState({ online: false, devices: [] });
+    setSyncUrlState(url);
+  };
 
   // Autocomplete Logic
   useEffect(() => {
@@ -139,7 +260,7 @@ function App() {
             return;
         }
         
-        // Use optimized DB search
+        // Indexed fuzzy search across PartID, VendorPN, CustomerPN and Description
         const matched = await db.searchMasterItems(manualInput);
         
         setSuggestions(matched);
@@ -161,75 +282,292 @@ function App() {
     return () => clearTimeout(timer);
   }, [showOverlay]);
 
-  const handleUserSelect = (user: string) => {
-    setCurrentUser(user);
-    setHasSelectedUser(true);
+  const startPartScan = () => {
+    // A batch can't be written to a frozen or closed session, so don't let one start
+    if (batchMode && (!session || session.status !== 'open')) {
+      alert(sessionBlockedMessage(session));
+      return;
+    }
+    setScanTarget('PART');
+    setIsScanning(true);
   };
 
-  const handleScan = useCallback(async (partId: string) => {
-    if (!partId.trim()) return;
+  const applyLocation = (loc: string) => {
+    const value = loc.trim();
+    if (!value) return;
+    setCurrentLocation(value);
+    playSound('success');
+    if (navigator.vibrate) navigator.vibrate(50);
+  };
 
-    // 1. Check for duplicates locally
-    const existingRecord = records.find(r => r.PartID === partId);
+  // Records a scan of a known (or unknown) part under the current quantity mode
+  const recordScan = useCallback(async (partId: string, masterItem: MasterItem | undefined, label: ScanLabel = {}) => {
+    if (!session) return;
+
+    // Quantity modes: PROMPT asks for the amount, COUNT adds one unit (or the label quantity) per scan
+    let quantity = scanMode === 'COUNT' ? label.quantity ?? 1 : 1;
+    if (scanMode === 'PROMPT') {
+      const input = window.prompt(`請輸入 ${partId} 的數量`, String(label.quantity ?? 1));
+      if (input === null) return;
+      quantity = Number(input.trim());
+      if (!Number.isFinite(quantity) || quantity <= 0) {
+        playSound('error');
+        alert('數量格式錯誤，請輸入大於 0 的數字。');
+        return;
+      }
+    }
+
+    // Writes are refused once the session is frozen or closed
+    try {
+      // 1. Check for duplicates within the session
+      const existingRecord = await db.findRecordByPartId(session.id, partId);
     
-    if (existingRecord) {
-      setLastScanStatus('Duplicated');
-      setLastRecord(existingRecord);
+      if (existingRecord && scanMode !== 'SERIAL') {
+        const updated = await db.addRecordQuantity(existingRecord, quantity, currentUser);
+        setLastScanStatus(updated.Status);
+        setLastRecord(updated);
+
+        setOverlayStatus(updated.Status);
+        setOverlayRecord(updated);
+        setShowOverlay(true);
+
+        playSound(updated.Status === 'Not Found' ? 'error' : 'success');
+        if (navigator.vibrate) navigator.vibrate(50);
+
+        setManualInput('');
+        setShowSuggestions(false);
+        return;
+      }
+
+      if (existingRecord) {
+        setLastScanStatus('Duplicated');
+        setLastRecord(existingRecord);
       
+        // Trigger Overlay
+        setOverlayStatus('Duplicated');
+        setOverlayRecord(existingRecord);
+        setShowOverlay(true);
+
+        playSound('warning');
+        if (navigator.vibrate) navigator.vibrate(200); // Short double buzz for warning
+        return; 
+      }
+    
+      // 2. Compare where it was found against the master location
+      const newRecord = createRecord(partId, masterItem, {
+        sessionId: session.id, scannedBy: currentUser, quantity, location: currentLocation, label
+      });
+      const status = newRecord.Status;
+
+      await db.addRecord(newRecord);
+      setLastRecord(newRecord);
+      setLastScanStatus(status);
+    
       // Trigger Overlay
-      setOverlayStatus('Duplicated');
-      setOverlayRecord(existingRecord);
+      setOverlayStatus(status);
+      setOverlayRecord(newRecord);
       setShowOverlay(true);
 
-      playSound('warning');
-      if (navigator.vibrate) navigator.vibrate(200); // Short double buzz for warning
-      return; 
+      if (status === 'OK') {
+          playSound('success');
+          if (navigator.vibrate) navigator.vibrate(50); // Short crisp buzz for success
+      } else if (status === 'Misplaced') {
+          playSound('warning');
+          if (navigator.vibrate) navigator.vibrate(200);
+      } else {
+          playSound('error');
+          if (navigator.vibrate) navigator.vibrate([100, 50, 100]); // Long buzz pattern for error
+      }
+    } catch (e: any) {
+      playSound('error');
+      alert(e.message);
+      return;
     }
-    
-    // 2. Query Master DB
-    const masterItem = await db.findItem(partId);
-    const status: ScanStatus = masterItem ? 'OK' : 'Not Found';
-    
-    // Create new record snapshotting master data
-    const newRecord: InventoryRecord = {
-      id: generateId(),
-      InventoryDate: Date.now(),
-      Status: status,
-      scannedBy: currentUser,
-      
-      PartID: partId,
-      VendorSN: masterItem?.VendorSN || '',
-      Project: masterItem?.Project || '',
-      Class: masterItem?.Class || '',
-      Location: masterItem?.Location || '',
-      Vendor: masterItem?.Vendor || '',
-      VendorPN: masterItem?.VendorPN || '',
-      CustomerPN: masterItem?.CustomerPN || '',
-      Description: masterItem?.Description || ''
-    };
 
-    setRecords(prev => [newRecord, ...prev]);
-    setLastRecord(newRecord);
-    setLastScanStatus(status);
-    
-    // Trigger Overlay
-    setOverlayStatus(status);
-    setOverlayRecord(newRecord);
-    setShowOverlay(true);
-
-    if (status === 'OK') {
-        playSound('success');
-        if (navigator.vibrate) navigator.vibrate(50); // Short crisp buzz for success
-    } else {
-        playSound('error');
-        if (navigator.vibrate) navigator.vibrate([100, 50, 100]); // Long buzz pattern for error
-    }
-    
     // Clear manual input state
     setManualInput('');
     setShowSuggestions(false);
-    
-  }, [records, currentUser]);
+  }, [currentUser, session, scanMode, currentLocation]);
+
+  const handleScan = useCallback(async (code: string) => {
+    if (!code.trim()) return;
+
+    if (!canScan(role)) {
+      playSound('error');
+      alert('檢視者帳號無法進行盤點。');
+      return;
+    }
+
+    // A shelf label switches the current location instead of recording a part
+    if (code.trim().toUpperCase().startsWith(LOCATION_PREFIX)) {
+      applyLocation(code.trim().slice(LOCATION_PREFIX.length));
+      setManualInput('');
+      setShowSuggestions(false);
+      return;
+    }
+
+    if (!session || session.status !== 'open') {
+      playSound('error');
+      alert(sessionBlockedMessage(session));
+      return;
+    }
+
+    // Vendor labels may carry a serial or quantity around the PartID, or only another identifier
+    let resolved: ResolvedPayload;
+    try {
+      resolved = await db.resolvePayload(code.trim(), loadPayloadRules());
+    } catch (e: any) {
+      playSound('error');
+      alert(e.message);
+      return;
+    }
+    if (resolved.candidates.length > 1) {
+      setPendingPicks(prev => [...prev, { code: code.trim(), resolved, batch: false }]);
+      playSound('warning');
+      setManualInput('');
+      setShowSuggestions(false);
+      return;
+    }
+    await recordScan(resolved.partId, resolved.candidates[0], resolved);
+  }, [role, session, recordScan]);
+
+  const addBatchItem = useCallback(async (code: string, partId: string, masterItem: MasterItem | undefined, label: ScanLabel = {}) => {
+    if (!session) return;
+
+    // Two labels on one part (e.g. PartID and serial) resolve to the same entry
+    if (partId !== code) {
+      if (batchCodesRef.current.has(partId)) return;
+      batchCodesRef.current.add(partId);
+    }
+
+    let existing: InventoryRecord | undefined;
+    try {
+      existing = await db.findRecordByPartId(session.id, partId);
+    } catch (e) {
+      // Forget the label so it can be scanned again once the error is dealt with
+      batchCodesRef.current.delete(code);
+      batchCodesRef.current.delete(partId);
+      throw e;
+    }
+    const record = existing || createRecord(partId, masterItem, {
+      sessionId: session.id,
+      scannedBy: currentUser,
+      quantity: scanMode === 'COUNT' ? label.quantity ?? 1 : 1,
+      location: currentLocation,
+      label
+    });
+    const status: ScanStatus = existing ? 'Duplicated' : record.Status;
+    setBatchItems(prev => [{ record, status }, ...prev]);
+
+    playSound(status === 'OK' ? 'success' : status === 'Not Found' ? 'error' : 'warning');
+    if (navigator.vibrate) navigator.vibrate(status === 'OK' ? 50 : 200);
+  }, [session, currentUser, currentLocation, scanMode]);
+
+  // Each distinct code is looked up once per batch; nothing is written until the batch is committed.
+  // Parts already recorded in the session are listed but skipped, whatever the quantity mode.
+  const handleBatchDecode = useCallback(async (decodedText: string) => {
+    const code = decodedText.trim();
+    if (!code || !session) return;
+
+    // A shelf label mid-sweep moves the rest of the batch to that location
+    if (code.toUpperCase().startsWith(LOCATION_PREFIX)) {
+      const loc = code.slice(LOCATION_PREFIX.length);
+      if (normalizeLocation(loc) !== normalizeLocation(currentLocation)) applyLocation(loc);
+      return;
+    }
+
+    if (batchCodesRef.current.has(code)) return;
+    batchCodesRef.current.add(code);
+
+    try {
+      const resolved = await db.resolvePayload(code, loadPayloadRules());
+      if (resolved.candidates.length > 1) {
+        // The code stays in the seen set, so cancelling the picker doesn't bring it straight back
+        setPendingPicks(prev => [...prev, { code, resolved, batch: true }]);
+        playSound('warning');
+        return;
+      }
+      await addBatchItem(code, resolved.partId, resolved.candidates[0], resolved);
+    } catch (e: any) {
+      batchCodesRef.current.delete(code);
+      playSound('error');
+      alert(e.message);
+    }
+  }, [session, currentLocation, addBatchItem]);
+
+  const resetBatch = () => {
+    batchCodesRef.current = new Set();
+    setBatchItems([]);
+    setPendingPicks(prev => prev.filter(p => !p.batch));
+  };
+
+  // The session may have been frozen or closed while the picker was open
+  const handlePick = async (item: MasterItem) => {
+    const [pick] = pendingPicks;
+    if (!pick) return;
+    setPendingPicks(prev => prev.slice(1));
+    try {
+      if (pick.batch) await addBatchItem(pick.code, item.PartID, item, pick.resolved);
+      else await recordScan(item.PartID, item, pick.resolved);
+    } catch (e: any) {
+      playSound('error');
+      alert(e.message);
+    }
+  };
+
+  const commitBatch = async () => {
+    // Written in the order they were scanned
+    const records = batchItems.filter(i => i.status !== 'Duplicated').map(i => i.record).reverse();
+    if (records.length === 0) return;
+    setIsCommittingBatch(true);
+    try {
+      const added = await db.addRecords(sessionId, records, currentUser);
+      const last = added[added.length - 1];
+      if (last) {
+        setLastRecord(last);
+        setLastScanStatus(last.Status);
+      }
+      if (added.length < records.length) alert(`${records.length - added.length} 筆已由其他人員盤點，未重複寫入。`);
+      resetBatch();
+      playSound('success');
+    } catch (e: any) {
+      playSound('error');
+      alert(e.message);
+    } finally {
+      setIsCommittingBatch(false);
+    }
+  };
+
+  // Closing the camera with an unwritten batch needs a confirmation
+  const handleScanningChange = (scanning: boolean) => {
+    if (!scanning && isBatchScan && batchItems.some(i => i.status !== 'Duplicated')) {
+      if (!window.confirm('尚有未寫入的掃描結果，確定要放棄並關閉相機嗎？')) return;
+    }
+    if (!scanning) resetBatch();
+    setIsScanning(scanning);
+  };
+
+  // The camera either records parts or, when started from the location bar, captures one shelf label
+  const handleScannerDecode = useCallback((decodedText: string) => {
+    if (scanTarget === 'LOCATION') {
+      const value = decodedText.trim();
+      applyLocation(value.toUpperCase().startsWith(LOCATION_PREFIX) ? value.slice(LOCATION_PREFIX.length) : value);
+      setScanTarget('PART');
+      setIsScanning(false);
+      return;
+    }
+    if (batchMode) {
+      handleBatchDecode(decodedText);
+      return;
+    }
+    handleScan(decodedText);
+  }, [scanTarget, batchMode, handleScan, handleBatchDecode]);
+
+  const handleLocationSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    applyLocation(locationInput);
+    setLocationInput('');
+  };
 
   const handleManualSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -244,8 +582,13 @@ function App() {
     setCurrentView('LIST');
   };
 
-  const deleteRecords = (ids: string[]) => {
-    setRecords(prev => prev.filter(r => !ids.includes(r.id)));
+  const deleteRecords = async (ids: string[]) => {
+    if (!canScan(role)) return;
+    try {
+      await db.deleteRecords(sessionId, ids, currentUser);
+    } catch (e: any) {
+      alert(e.message);
+    }
   };
 
   const handleDeleteSingle = (id: string, e: React.MouseEvent) => {
@@ -259,145 +602,54 @@ function App() {
       }
   };
 
-  const updateRecordsStatus = (ids: string[], newStatus: ScanStatus) => {
-    setRecords(prev => prev.map(r => ids.includes(r.id) ? { ...r, Status: newStatus } : r));
+  const updateRecordsStatus = async (ids: string[], newStatus: ScanStatus) => {
+    if (!canScan(role)) return;
+    try {
+      await db.updateRecordsStatus(sessionId, ids, newStatus, currentUser);
+    } catch (e: any) {
+      alert(e.message);
+    }
   };
 
-  const clearRecords = () => {
-    setRecords([]);
+  const clearRecords = async () => {
+    if (!canManage(role)) return;
+    try {
+      await db.clearRecords(sessionId, currentUser);
+    } catch (e: any) {
+      alert(e.message);
+      return;
+    }
     setLastScanStatus('IDLE');
     setLastRecord(undefined);
   };
 
-  const downloadCSV = (content: string, fileName: string) => {
-    const blob = new Blob([content], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.setAttribute("href", url);
-    link.setAttribute("download", fileName);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  };
-
-  const handleExportScanned = () => {
-    const BOM = "\uFEFF";
-    const header = "盤點日期,PartID,Vendor S/N,Project,Class,Location,ScanStatus,InvStatus,Vendor,Vendor P/N,Customer P/N,Description,User\n";
-    let csvContent = BOM + header;
-    
-    records.forEach(r => {
-      const dateStr = new Date(r.InventoryDate).toLocaleString('zh-TW', { hour12: false }).replace(',', '');
-      const row = [
-        dateStr, 
-        r.PartID, 
-        r.VendorSN || '', 
-        r.Project || '', 
-        r.Class || '', 
-        r.Location || '',
-        r.Status, 
-        'Normal', 
-        r.Vendor || '', 
-        r.VendorPN || '', 
-        r.CustomerPN || '',
-        `"${(r.Description || '').replace(/"/g, '""')}"`, 
-        r.scannedBy
-      ].join(",");
-      csvContent += row + "\n";
-    });
-
-    downloadCSV(csvContent, `TPE_EMM_ScannedOnly_${new Date().toISOString().slice(0,10)}.csv`);
-  };
-
-  const handleLogin = (e: React.FormEvent) => {
-      e.preventDefault();
-      if (passwordInput === '20251201') {
-          setIsAuthenticated(true);
-          localStorage.setItem('zen_auth', 'true'); // Persist login
-          setAuthError(false);
-          setPasswordInput('');
-      } else {
-          setAuthError(true);
-          setPasswordInput('');
-      }
+  const handleExportScanned = async (format: ReportFormat = 'csv') => {
+    try {
+      const records = await db.getAllRecords(sessionId);
+      const category = categoryReporter(await db.getCategories());
+      const sheet: ReportSheet = {
+        name: '已盤點',
+        header: SCANNED_REPORT_HEADER,
+        rows: records.map(r => scannedReportRow(r, category.name(r)))
+      };
+      category.sort(sheet.rows, SCANNED_REPORT_HEADER.length - 1);
+
+      await downloadReport([sheet], `TPE_EMM_ScannedOnly_${new Date().toISOString().slice(0,10)}`, format);
+    } catch (e) {
+      console.error(e);
+      alert("匯出失敗");
+    }
   };
 
   const handleLock = () => {
-      setIsAuthenticated(false);
-      localStorage.removeItem('zen_auth');
-      setHasSelectedUser(false); // Also reset user selection
-      setPasswordInput('');
+      setAuthUserName(null);
   };
 
-  // --- Password Protection Screen ---
-  if (!isAuthenticated) {
-      return (
-        <div className="h-screen bg-stone-800 flex flex-col items-center justify-center p-6 text-stone-50">
-            <div className="w-16 h-16 bg-stone-700 rounded-full flex items-center justify-center mb-6">
-                <Lock size={32} className="text-amber-500" />
-            </div>
-            <h1 className="text-xl font-bold mb-2">系統鎖定</h1>
-            <p className="text-stone-400 text-xs mb-8">請輸入存取密碼以繼續</p>
-            
-            <form onSubmit={handleLogin} className="w-full max-w-xs space-y-4">
-                <div className="relative">
-                    <input 
-                        type={showPassword ? "text" : "password"} 
-                        value={passwordInput}
-                        onChange={(e) => setPasswordInput(e.target.value)}
-                        className="w-full bg-stone-700 border border-stone-600 rounded-xl px-4 py-3 pr-12 text-center text-lg tracking-widest focus:outline-none focus:border-amber-500 transition-colors"
-                        placeholder="••••"
-                        inputMode="numeric"
-                        maxLength={8}
-                    />
-                    <button
-                        type="button"
-                        onClick={() => setShowPassword(!showPassword)}
-                        className="absolute right-3 top-1/2 -translate-y-1/2 p-2 text-stone-400 hover:text-stone-200 transition-colors"
-                    >
-                        {showPassword ? <EyeOff size={20} /> : <Eye size={20} />}
-                    </button>
-                </div>
-                {authError && <p className="text-red-400 text-xs text-center">密碼錯誤</p>}
-                <button 
-                    type="submit"
-                    className="w-full bg-amber-600 text-white rounded-xl py-3 font-bold active:scale-95 transition-transform"
-                >
-                    解鎖
-                </button>
-            </form>
-        </div>
-      );
-  }
+  if (!accounts) return null;
 
-  // --- Login Screen (User Select) ---
-  if (!hasSelectedUser) {
-    return (
-       <div className="h-screen bg-stone-50 flex flex-col items-center justify-center p-6 animate-in fade-in duration-500">
-          <div className="mb-10 text-center">
-             <div className="w-20 h-20 bg-stone-800 rounded-3xl mx-auto mb-6 flex items-center justify-center shadow-xl shadow-stone-200">
-                <div className="w-4 h-4 bg-amber-500 rounded-full animate-bounce-short"></div>
-             </div>
-             <h1 className="text-lg font-bold text-stone-800 tracking-tight mb-2">EMM 盤點系統</h1>
-             <p className="text-stone-400 text-sm">請選擇您的使用者名稱以開始</p>
-          </div>
-
-          <div className="w-full max-w-sm grid grid-cols-2 gap-3">
-             {users.map(u => (
-               <button
-                 key={u}
-                 onClick={() => handleUserSelect(u)}
-                 className="p-4 bg-white border-2 border-stone-100 rounded-2xl font-bold text-stone-600 hover:border-amber-500 hover:text-amber-600 hover:bg-amber-50 transition-all active:scale-95 shadow-sm text-sm"
-               >
-                 {u}
-               </button>
-             ))}
-          </div>
-          
-          <div className="mt-12 text-[10px] text-stone-300">
-            Version 1.5 • Offline First
-          </div>
-       </div>
-    );
+  // --- Login / First Admin Setup ---
+  if (!currentAccount) {
+      return <LoginScreen accounts={accounts} onLogin={setAuthUserName} />;
   }
 
   // --- Main App ---
@@ -410,9 +662,25 @@ function App() {
           <div className="w-2 h-2 bg-amber-500 rounded-full"></div>
           EMM盤點系統
         </h1>
-        <div className="flex items-center gap-2 text-xs bg-stone-700 px-3 py-1.5 rounded-full border border-stone-600">
-          <User size={14} className="text-amber-400" />
-          <span className="text-stone-200 font-medium">{currentUser}</span>
+        <div className="flex items-center gap-2">
+          {syncUrl && (
+            <span className={`flex items-center gap-1 text-[10px] ${syncState.online ? 'text-emerald-400' : 'text-stone-400'}`} title={syncState.error}>
+              {syncState.online ? <Cloud size={14} /> : <CloudOff size={14} />}
+              {syncPending > 0 && syncPending}
+            </span>
+          )}
+          {session && (
+            <span className={`text-[10px] px-2 py-1 rounded-full border max-w-[110px] truncate ${
+              session.status === 'open' ? 'border-stone-600 text-stone-300' : 'border-amber-500/50 text-amber-400'
+            }`}>
+              {session.name}{session.status !== 'open' && ` · ${SESSION_STATUS_LABELS[session.status]}`}
+            </span>
+          )}
+          <div className="flex items-center gap-2 text-xs bg-stone-700 px-3 py-1.5 rounded-full border border-stone-600">
+            <User size={14} className="text-amber-400" />
+            <span className="text-stone-200 font-medium">{currentUser}</span>
+            <span className="text-[10px] text-stone-400">{role && ROLE_LABELS[role]}</span>
+          </div>
         </div>
       </header>
 
@@ -430,9 +698,25 @@ function App() {
                  visible={showOverlay} 
               />
 
-              <div className="flex justify-end -mb-2 z-10">
+              <div className="flex justify-between items-center -mb-2 z-10">
+                <div className="flex items-center gap-2">
+                  <div className="flex p-0.5 bg-stone-200 rounded-full border border-stone-300">
+                    {SCAN_MODES.map(m => (
+                      <button
+                        key={m.mode}
+                        onClick={() => setScanMode(m.mode)}
+                        className={`text-[10px] px-2 py-0.5 rounded-full transition-colors ${
+                          scanMode === m.mode ? 'bg-stone-800 text-white font-bold' : 'text-stone-500 hover:text-stone-700'
+                        }`}
+                      >
+                        {m.label}
+                      </button>
+                    ))}
+                  </div>
+                  <WedgeScanner onScan={handleScan} disabled={!canScan(role)} />
+                </div>
                 <button 
-                  onClick={handleExportScanned}
+                  onClick={() => handleExportScanned('csv')}
                   className="flex items-center gap-1 text-[10px] bg-stone-200 hover:bg-emerald-100 hover:text-emerald-800 text-stone-600 px-2 py-1 rounded-full transition-colors border border-stone-300"
                 >
                    <Download size={12} />
@@ -440,6 +724,33 @@ function App() {
                 </button>
               </div>
 
+              {/* Current Location */}
+              <form onSubmit={handleLocationSubmit} className="flex items-center gap-2 bg-white rounded-xl px-3 py-2 border border-stone-200 shadow-sm">
+                <MapPin size={14} className={currentLocation ? 'text-amber-600' : 'text-stone-300'} />
+                <div className="flex-1 min-w-0">
+                  <p className="text-[10px] text-stone-400 leading-none">目前儲位</p>
+                  <p className="text-xs font-bold font-mono text-stone-700 truncate">{currentLocation || '未設定'}</p>
+                </div>
+                <input
+                  value={locationInput}
+                  onChange={(e) => setLocationInput(e.target.value)}
+                  placeholder="輸入儲位"
+                  className="w-24 px-2 py-1 bg-stone-50 border border-stone-200 rounded-lg text-xs focus:outline-none focus:border-stone-500"
+                />
+                <button
+                  type="button"
+                  onClick={() => { setScanTarget('LOCATION'); setIsScanning(true); }}
+                  className="p-1.5 bg-stone-800 text-white rounded-lg hover:bg-stone-700"
+                >
+                  <ScanBarcode size={14} />
+                </button>
+                {currentLocation && (
+                  <button type="button" onClick={() => setCurrentLocation('')} className="p-1 text-stone-300 hover:text-red-500">
+                    <X size={14} />
+                  </button>
+                )}
+              </form>
+
               <StatusFeedback 
                 status={lastScanStatus} 
                 lastRecord={lastRecord} 
@@ -448,11 +759,23 @@ function App() {
               
               <div className="flex-1 flex flex-col items-center justify-center min-h-[250px]">
                 <button
-                  onClick={() => setIsScanning(true)}
-                  className="w-32 h-32 rounded-full bg-stone-800 shadow-xl border-4 border-stone-200 flex flex-col items-center justify-center gap-2 active:scale-95 transition-all duration-200 group mb-6 hover:shadow-2xl hover:border-amber-500/30"
+                  onClick={startPartScan}
+                  disabled={!canScan(role)}
+                  className="w-32 h-32 rounded-full bg-stone-800 shadow-xl border-4 border-stone-200 flex flex-col items-center justify-center gap-2 active:scale-95 transition-all duration-200 group mb-6 hover:shadow-2xl hover:border-amber-500/30 disabled:opacity-40 disabled:cursor-not-allowed"
                 >
                   <Scan size={36} className="text-stone-100 group-hover:text-amber-400 transition-colors" />
-                  <span className="text-stone-200 font-medium text-xs">啟動掃描</span>
+                  <span className="text-stone-200 font-medium text-xs">{batchMode ? '連續掃描' : '啟動掃描'}</span>
+                </button>
+
+                <button
+                  onClick={() => setBatchMode(!batchMode)}
+                  className={`-mt-3 mb-5 flex items-center gap-1 text-[10px] px-3 py-1 rounded-full border transition-colors ${
+                    batchMode ? 'bg-amber-100 border-amber-300 text-amber-800 font-bold' : 'bg-white border-stone-200 text-stone-500 hover:text-stone-700'
+                  }`}
+                  title="相機保持開啟，一次讀取多個條碼後批次寫入"
+                >
+                  <Layers size={12} />
+                  批次模式{batchMode ? '：開' : ''}
                 </button>
 
                 <form onSubmit={handleManualSubmit} className="w-full max-w-xs px-2 relative z-10">
@@ -461,7 +784,7 @@ function App() {
                        type="text" 
                        value={manualInput}
                        onChange={(e) => setManualInput(e.target.value)}
-                       placeholder="輸入 PartID (支援搜尋)..."
+                       placeholder="輸入 PartID / 料號 / 品名搜尋..."
                        className="w-full py-3 px-4 bg-white border border-stone-300 rounded-xl focus:outline-none focus:border-stone-800 focus:ring-1 focus:ring-stone-800 transition-all text-stone-800 placeholder-stone-400 shadow-sm text-sm"
                     />
                     <button 
@@ -475,18 +798,20 @@ function App() {
 
                   {showSuggestions && (
                       <div className="absolute w-full mt-2 bg-white rounded-xl shadow-xl border border-stone-100 overflow-hidden z-20 max-h-60 overflow-y-auto">
-                          {suggestions.map(item => (
+                          {suggestions.map(({ item, field }) => (
                               <button
                                   key={item.PartID}
                                   type="button"
                                   onClick={() => handleSuggestionClick(item.PartID)}
                                   className="w-full text-left px-4 py-3 hover:bg-amber-50 border-b border-stone-50 last:border-0 flex flex-col transition-colors"
                               >
-                                  <span className="font-bold text-stone-700 text-sm">{item.PartID}</span>
-                                  <div className="flex justify-between items-center w-full">
-                                    <span className="text-xs text-stone-400 truncate max-w-[180px]">{item.Description}</span>
-                                    {item.VendorPN && item.VendorPN !== 'NA' && (
-                                      <span className="text-[10px] bg-stone-100 text-stone-500 px-1 rounded">{item.VendorPN}</span>
+                                  <span className="font-bold text-stone-700 text-sm"><HighlightText text={item.PartID} query={manualInput} /></span>
+                                  <div className="flex justify-between items-center w-full gap-2">
+                                    <span className="text-xs text-stone-400 truncate max-w-[180px]"><HighlightText text={item.Description} query={manualInput} /></span>
+                                    {field === 'CustomerPN' ? (
+                                      <span className="text-[10px] bg-stone-100 text-stone-500 px-1 rounded shrink-0">客 <HighlightText text={item.CustomerPN} query={manualInput} /></span>
+                                    ) : item.VendorPN && item.VendorPN !== 'NA' && (
+                                      <span className="text-[10px] bg-stone-100 text-stone-500 px-1 rounded shrink-0"><HighlightText text={item.VendorPN} query={manualInput} /></span>
                                     )}
                                   </div>
                               </button>
@@ -499,28 +824,34 @@ function App() {
               <div className="mt-auto bg-white rounded-xl px-4 py-3 shadow-sm border border-stone-100 opacity-90">
                 <div className="flex justify-between items-center mb-2">
                    <h4 className="text-[10px] font-bold text-stone-400 uppercase tracking-wider">最近紀錄</h4>
-                   <span className="text-[10px] bg-stone-100 text-stone-500 px-1.5 py-0.5 rounded-full">{records.length} 筆</span>
+                   <span className="text-[10px] bg-stone-100 text-stone-500 px-1.5 py-0.5 rounded-full">{recordCount} 筆</span>
                 </div>
-                {records.length === 0 ? (
+                {recentRecords.length === 0 ? (
                   <p className="text-xs text-stone-300 py-1">尚無資料</p>
                 ) : (
                   <div className="space-y-1">
-                    {records.slice(0, 3).map(r => (
+                    {recentRecords.map(r => (
                       <div key={r.id} className="flex justify-between items-center py-1.5 text-sm border-b border-stone-50 last:border-0 group">
-                        <span className="font-mono text-stone-700 font-medium">{r.PartID}</span>
+                        <span className="font-mono text-stone-700 font-medium">
+                          {r.PartID}
+                          {(r.Quantity ?? 1) !== 1 && <span className="ml-1 text-[10px] text-stone-400">×{r.Quantity}</span>}
+                        </span>
                         <div className="flex items-center gap-2">
                             <span className={`text-[10px] px-1.5 py-0.5 rounded ${
                             r.Status === 'OK' ? 'bg-emerald-100 text-emerald-700' : 
                             r.Status === 'Checked' ? 'bg-blue-100 text-blue-700' :
-                            r.Status === 'Duplicated' ? 'bg-amber-100 text-amber-700' : 'bg-red-100 text-red-700'
+                            r.Status === 'Duplicated' ? 'bg-amber-100 text-amber-700' :
+                            r.Status === 'Misplaced' ? 'bg-violet-100 text-violet-700' : 'bg-red-100 text-red-700'
                             }`}>{r.Status}</span>
                             
-                            <button 
-                                onClick={(e) => handleDeleteSingle(r.id, e)}
-                                className="p-1 text-stone-300 hover:text-red-500 hover:bg-red-50 rounded-full transition-colors"
-                            >
-                                <X size={14} />
-                            </button>
+                            {canScan(role) && (
+                              <button 
+                                  onClick={(e) => handleDeleteSingle(r.id, e)}
+                                  className="p-1 text-stone-300 hover:text-red-500 hover:bg-red-50 rounded-full transition-colors"
+                              >
+                                  <X size={14} />
+                              </button>
+                            )}
                         </div>
                       </div>
                     ))}
@@ -532,7 +863,8 @@ function App() {
 
           {currentView === 'LIST' && (
             <HistoryList 
-              records={records} 
+              session={session}
+              canEdit={canScan(role)}
               onDelete={deleteRecords} 
               onUpdateStatus={updateRecordsStatus}
               lastRecord={lastRecord}
@@ -540,18 +872,22 @@ function App() {
           )}
 
           {currentView === 'STATUS' && (
-            <StockStatus records={records} />
+            <StockStatus session={session} syncEnabled={!!syncUrl} syncState={syncState} syncPending={syncPending} />
           )}
 
           {currentView === 'ADMIN' && (
             <AdminDashboard 
-              records={records} 
-              setRecords={setRecords}
+              session={session}
+              sessions={sessions}
+              onSelectSession={setViewedSessionId}
               onClearRecords={clearRecords} 
-              users={users}
-              setUsers={setUsers}
+              currentAccount={currentAccount}
               onExportScanned={handleExportScanned}
               onLock={handleLock}
+              syncUrl={syncUrl}
+              syncState={syncState}
+              syncPending={syncPending}
+              onSyncUrlChange={handleSyncUrlChange}
             />
           )}
 
@@ -559,10 +895,31 @@ function App() {
       </main>
 
       <ScannerInput 
-        onScan={handleScan} 
+        onScan={handleScannerDecode} 
         isScanning={isScanning} 
-        setIsScanning={setIsScanning} 
-      />
+        setIsScanning={handleScanningChange} 
+        continuous={isBatchScan}
+      >
+        {isBatchScan && (
+          <BatchScanPanel
+            items={batchItems}
+            location={currentLocation}
+            isCommitting={isCommittingBatch}
+            onCommit={commitBatch}
+            onDiscard={resetBatch}
+          />
+        )}
+      </ScannerInput>
+
+      {pendingPicks[0] && (
+        <LookupPicker
+          code={pendingPicks[0].code}
+          matchedBy={pendingPicks[0].resolved.matchedBy!}
+          candidates={pendingPicks[0].resolved.candidates}
+          onPick={handlePick}
+          onCancel={() => setPendingPicks(prev => prev.slice(1))}
+        />
+      )}
 
       <nav className="absolute bottom-0 left-0 right-0 bg-white border-t border-stone-200 px-6 py-3 flex justify-between items-center z-30 shadow-[0_-4px_6px_-1px_rgba(0,0,0,0.05)]">
         <NavButton 
@@ -1,91 +1,50 @@
 import React, { useRef, useState, useEffect } from 'react';
-import { Upload, Download, Database, FileText, Loader2, Users, UserPlus, X, FileQuestion, FilePlus, Archive, Trash2, Lock } from 'lucide-react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Upload, Download, Database, FileText, Loader2, FileQuestion, FilePlus, Archive, Trash2, Lock, CalendarRange, Plus, Snowflake, Play, Flag, User, AlertTriangle, X, Wifi } from 'lucide-react';
+import UserManagement from './UserManagement';
+import MasterImportMapper from './MasterImportMapper';
+import MasterDiffPreview from './MasterDiffPreview';
+import MergePreview from './MergePreview';
+import AuditLogViewer from './AuditLogViewer';
+import SnapshotBrowser from './SnapshotBrowser';
+import RelatedRulesEditor from './RelatedRulesEditor';
+import PayloadRulesEditor from './PayloadRulesEditor';
+import CategoryEditor from './CategoryEditor';
+import WedgeSettingsEditor from './WedgeSettingsEditor';
 import { db } from '../utils/db';
-import { MasterItem, InventoryRecord } from '../types';
+import { InventoryRecord, InventorySession, UserAccount, CsvImportStats, CsvImportError, MasterDiff, SyncState } from '../types';
+import { SESSION_STATUS_LABELS, createSession, isInSessionScope, parseScopeList } from '../utils/session';
+import { ROLE_LABELS, canManage } from '../utils/auth';
+import { BACKUP_SCHEMA_VERSION, ParsedBackup, RestoreMode, createBackup, readBackup, canCompress } from '../utils/backup';
+import { MergeChoice, MergeRow, MergeRule, MERGE_RULE_LABELS, parseScanCsv, classifyMerge } from '../utils/merge';
+import { ColumnMapping, MasterImportMode, MasterImportMessage, MasterImportRequest, saveMapping, missingRequiredFields } from '../utils/masterImport';
+import { ReportFormat, ReportSheet, FULL_REPORT_HEADER, UNSCANNED_REPORT_HEADER, downloadReport, isXlsxFile, readXlsxRows } from '../utils/spreadsheet';
+import { CsvDelimiter, CsvSource, CsvTable, CSV_DELIMITERS, getCsvDelimiter, setCsvDelimiter, readCsvFile, sniffCsvFile, tableFromRows, isBlankRow } from '../utils/csv';
+import { categoryReporter } from '../utils/categories';
 
 interface AdminDashboardProps {
-  records: InventoryRecord[];
-  setRecords: React.Dispatch<React.SetStateAction<InventoryRecord[]>>;
+  session?: InventorySession;
+  sessions: InventorySession[];
+  onSelectSession: (sessionId: string | null) => void;
   onClearRecords: () => void;
-  users: string[];
-  setUsers: (users: string[]) => void;
-  onExportScanned: () => void;
+  currentAccount: UserAccount;
+  onExportScanned: (format: ReportFormat) => void;
   onLock: () => void;
+  syncUrl: string;
+  syncState: SyncState;
+  syncPending: number;
+  onSyncUrlChange: (url: string) => Promise<void>;
 }
 
-// Helper for robust CSV splitting (handles commas inside quotes)
-const splitCSV = (str: string) => {
-    const result = [];
-    let current = '';
-    let inQuote = false;
-    for (let i = 0; i < str.length; i++) {
-        const char = str[i];
-        if (char === '"') {
-            inQuote = !inQuote;
-        } else if (char === ',' && !inQuote) {
-            result.push(current.trim());
-            current = '';
-            continue;
-        }
-        current += char;
-    }
-    result.push(current.trim());
-    return result.map(val => {
-        if (val.startsWith('"') && val.endsWith('"')) {
-            return val.slice(1, -1).replace(/""/g, '"');
-        }
-        return val;
-    });
-}
+const REPORT_FORMAT_KEY = 'zen_report_format';
 
-// Robust file reader with encoding detection (UTF-8 / Big5 / UTF-16)
-const readFileAsText = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const buffer = e.target?.result as ArrayBuffer;
-      const view = new DataView(buffer);
-      
-      // 1. Detect BOM
-      let encoding = 'utf-8'; 
-      let offset = 0;
-
-      if (buffer.byteLength >= 3 && view.getUint8(0) === 0xEF && view.getUint8(1) === 0xBB && view.getUint8(2) === 0xBF) {
-        encoding = 'utf-8';
-        offset = 3;
-      } else if (buffer.byteLength >= 2 && view.getUint16(0, true) === 0xFEFF) {
-        encoding = 'utf-16le';
-        offset = 2;
-      } else if (buffer.byteLength >= 2 && view.getUint16(0, false) === 0xFEFF) {
-        encoding = 'utf-16be';
-        offset = 2;
-      } else {
-        // No BOM found. Try strict UTF-8 decoding.
-        try {
-           const decoder = new TextDecoder('utf-8', { fatal: true });
-           const text = decoder.decode(buffer);
-           resolve(text);
-           return;
-        } catch (e) {
-           // If strict UTF-8 fails, assume Big5 (Traditional Chinese Excel)
-           encoding = 'big5';
-        }
-      }
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
 
-      try {
-        const decoder = new TextDecoder(encoding);
-        const text = decoder.decode(buffer.slice(offset));
-        resolve(text);
-      } catch (err) {
-        reject(err);
-      }
-    };
-    reader.onerror = (e) => reject(e);
-    reader.readAsArrayBuffer(file);
-  });
-};
+const AdminDashboard: React.FC<AdminDashboardProps> = ({ session, sessions, onSelectSession, onClearRecords, currentAccount, onExportScanned, onLock, syncUrl, syncState, syncPending, onSyncUrlChange }) => {
+  // Master upload, merge, restore, sessions, accounts and clearing are admin-only
+  const isAdmin = canManage(currentAccount.role);
 
-const AdminDashboard: React.FC<AdminDashboardProps> = ({ records, setRecords, onClearRecords, users, setUsers, onExportScanned, onLock }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const mergeInputRef = useRef<HTMLInputElement>(null);
   const restoreInputRef = useRef<HTMLInputElement>(null);
@@ -94,246 +53,302 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ records, setRecords, on
   const [progress, setProgress] = useState(0);
   const [statusMsg, setStatusMsg] = useState('');
   const [itemCount, setItemCount] = useState<number | null>(null);
-  const [newUser, setNewUser] = useState('');
   const [isProcessingReport, setIsProcessingReport] = useState(false);
+  const [reportFormat, setReportFormat] = useState<ReportFormat>(() => localStorage.getItem(REPORT_FORMAT_KEY) === 'xlsx' ? 'xlsx' : 'csv');
+  const [csvDelimiter, setCsvDelimiterState] = useState<CsvDelimiter>(getCsvDelimiter);
+  // Master file waiting for the column-mapping step
+  const [pendingMaster, setPendingMaster] = useState<{ file: File, source?: CsvSource, preview: CsvTable } | null>(null);
+  const importWorkerRef = useRef<Worker | null>(null);
+  // Delta waiting for confirmation in sync mode
+  const [pendingDiff, setPendingDiff] = useState<{ fileName: string, diff: MasterDiff } | null>(null);
+  const [applyingDiff, setApplyingDiff] = useState(false);
+  // Teammate CSV classified against this session, waiting for conflict resolution
+  const [pendingMerge, setPendingMerge] = useState<{ fileName: string, rows: MergeRow[], invalidCount: number } | null>(null);
+  const [applyingMerge, setApplyingMerge] = useState(false);
+  // Backup file that passed validation, waiting for replace/merge choice
+  const [pendingRestore, setPendingRestore] = useState<{ fileName: string, backup: ParsedBackup } | null>(null);
+  const [compressBackup, setCompressBackup] = useState(canCompress());
+  // Validation outcome of the last master upload
+  const [importReport, setImportReport] = useState<{ fileName: string, stats: CsvImportStats, errors: CsvImportError[] } | null>(null);
+  const sessionId = session?.id || '';
+  const recordCount = useLiveQuery(() => db.countRecords(sessionId), [sessionId], 0);
+  const sessionCounts = useLiveQuery(async () => {
+    const counts: Record<string, number> = {};
+    for (const s of sessions) counts[s.id] = await db.countRecords(s.id);
+    return counts;
+  }, [sessions], {} as Record<string, number>);
+
+  const [syncUrlInput, setSyncUrlInput] = useState(syncUrl);
+  useEffect(() => setSyncUrlInput(syncUrl), [syncUrl]);
+
+  // New Session Form
+  const [showNewSession, setShowNewSession] = useState(false);
+  const [newSessionName, setNewSessionName] = useState('');
+  const [newSessionProjects, setNewSessionProjects] = useState('');
+  const [newSessionLocations, setNewSessionLocations] = useState('');
 
   useEffect(() => {
     db.masterItems.count().then(count => setItemCount(count));
   }, [importing]);
 
+  // Leaving the page mid-import stops the worker; a replace import's staged rows never reach the master
+  useEffect(() => () => importWorkerRef.current?.terminate(), []);
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
+    try {
+      // Only the head of a CSV is read here; the worker streams the whole file on confirm
+      const pending = isXlsxFile(file)
+        ? { file, preview: tableFromRows(await readXlsxRows(file)) }
+        : { file, ...await sniffCsvFile(file) };
+      if (pending.preview.rows.every(isBlankRow)) {
+        alert('檔案內容為空');
+      } else {
+        setPendingMaster(pending);
+      }
+    } catch (err) {
+      console.error(err);
+      setStatusMsg('匯入失敗：檔案編碼錯誤');
+    }
+
+    e.target.value = '';
+  };
+
+  const handleMasterImport = (headerRow: number, mapping: ColumnMapping, mode: MasterImportMode) => {
+    if (!pendingMaster) return;
+    const missing = missingRequiredFields(mapping);
+    if (missing.length > 0) {
+      alert(`缺少必要欄位：${missing.map(f => f.field).join(', ')}`);
+      return;
+    }
+    const { file, source, preview } = pendingMaster;
+    setPendingMaster(null);
+    setImportReport(null);
+    saveMapping(preview.rows[headerRow], mapping);
+
     setImporting(true);
     setProgress(0);
     setStatusMsg('讀取檔案中...');
 
-    try {
-      const text = await readFileAsText(file);
-      
-      const lines = text.split(/\r\n|\n/);
-      const totalLines = lines.length;
-      const CHUNK_SIZE = 1000;
-      let processed = 0;
-      
-      await db.clearMasterData();
-      
-      const chunks = [];
-      let currentChunk: MasterItem[] = [];
-      let startIndex = 1; 
-
-      for (let i = startIndex; i < totalLines; i++) {
-        const line = lines[i].trim();
-        if (!line) continue;
-        
-        const cols = splitCSV(line);
-        
-        if (cols.length >= 1 && cols[0]) {
-          // Reconstruct description if it was split by extra commas
-          // CSV Format: PartID(0), ..., CustomerPN(7), Description(8...)
-          const description = cols.length > 8 ? cols.slice(8).join(',').trim() : (cols[8] || '');
-
-          currentChunk.push({
-            PartID: cols[0],
-            VendorSN: cols[1] || '',
-            Project: cols[2] || '',
-            Class: cols[3] || '',
-            Location: cols[4] || '',
-            Vendor: cols[5] || '',
-            VendorPN: cols[6] || '',
-            CustomerPN: cols[7] || '',
-            Description: description
-          });
-        }
+    const worker = new Worker(new URL('../utils/masterImport.worker.ts', import.meta.url), { type: 'module' });
+    importWorkerRef.current = worker;
+    const finish = () => {
+      worker.terminate();
+      importWorkerRef.current = null;
+      setImporting(false);
+    };
 
-        if (currentChunk.length >= CHUNK_SIZE) {
-          chunks.push([...currentChunk]);
-          currentChunk = [];
-        }
-      }
-      if (currentChunk.length > 0) chunks.push(currentChunk);
-
-      for (let i = 0; i < chunks.length; i++) {
-        await db.bulkAdd(chunks[i]);
-        processed += chunks[i].length;
-        const pct = Math.round(((i + 1) / chunks.length) * 100);
-        setProgress(pct);
-        setStatusMsg(`正在匯入第 ${i + 1}/${chunks.length} 區塊...`);
-        await new Promise(resolve => setTimeout(resolve, 0));
+    worker.onmessage = (ev: MessageEvent<MasterImportMessage>) => {
+      const msg = ev.data;
+      switch (msg.type) {
+        case 'progress':
+          setProgress(msg.total > 0 ? Math.round((msg.loaded / msg.total) * 100) : 100);
+          setStatusMsg(source
+            ? `已讀取 ${formatBytes(msg.loaded)} / ${formatBytes(msg.total)}，${msg.processed} 筆`
+            : `已處理 ${msg.loaded} / ${msg.total} 列`);
+          break;
+        case 'done':
+          finish();
+          setImportReport({ fileName: file.name, stats: msg.stats, errors: msg.errors });
+          if (msg.diff) {
+            setPendingDiff({ fileName: file.name, diff: msg.diff });
+            setStatusMsg('');
+          } else if (mode === 'replace' && msg.written > 0) {
+            setStatusMsg(`匯入完成！共 ${msg.written} 筆資料。`);
+            setTimeout(() => setStatusMsg(''), 3000);
+          }
+          break;
+        case 'cancelled':
+          finish();
+          setImportReport({ fileName: file.name, stats: msg.stats, errors: msg.errors });
+          setStatusMsg('已取消匯入，主檔未變更。');
+          break;
+        case 'error':
+          finish();
+          alert(`匯入失敗：${msg.message}`);
+          setStatusMsg('匯入失敗');
+          break;
       }
+    };
+    worker.onerror = (ev) => {
+      console.error(ev);
+      finish();
+      setStatusMsg('匯入失敗');
+    };
 
-      setImporting(false);
-      setStatusMsg(`匯入完成！共 ${processed} 筆資料。`);
-      setTimeout(() => setStatusMsg(''), 3000);
-      
-      const count = await db.masterItems.count();
-      setItemCount(count);
+    const request: MasterImportRequest = { type: 'start', file, source, headerRow, mapping, mode, actor: currentAccount.name };
+    worker.postMessage(request);
+  };
 
-    } catch (err) {
-      console.error(err);
-      setImporting(false);
-      setStatusMsg('匯入失敗：檔案編碼錯誤');
+  const handleCancelImport = () => {
+    const request: MasterImportRequest = { type: 'cancel' };
+    importWorkerRef.current?.postMessage(request);
+    setStatusMsg('取消中...');
+  };
+
+  const handleApplyDiff = async () => {
+    if (!pendingDiff) return;
+    setApplyingDiff(true);
+    try {
+      await db.applyMasterDiff(pendingDiff.diff, currentAccount.name);
+      setPendingDiff(null);
+      setItemCount(await db.masterItems.count());
+    } catch (e: any) {
+      console.error(e);
+      alert(`同步失敗，主檔未變更：${e.message}`);
     }
-    
-    e.target.value = '';
+    setApplyingDiff(false);
   };
 
   const handleMergeUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
-    
-    if(!window.confirm(`確定要將 ${file.name} 合併到目前的盤點紀錄嗎？\n重複的 PartID 將被忽略。`)) {
-      e.target.value = '';
-      return;
-    }
 
     try {
-      const text = await readFileAsText(file);
-      const lines = text.split(/\r\n|\n/);
-      const startIndex = lines[0].startsWith('\uFEFF') || lines[0].includes('盤點日期') ? 1 : 0;
-      
-      const newRecords: InventoryRecord[] = [];
-      const currentPartIds = new Set(records.map(r => r.PartID));
-      let addedCount = 0;
-      let skippedCount = 0;
-
-      for (let i = startIndex; i < lines.length; i++) {
-        const line = lines[i].trim();
-        if (!line) continue;
-
-        const cols = splitCSV(line);
-        const partID = cols[1];
-
-        if (partID && !currentPartIds.has(partID)) {
-          const dateStr = cols[0];
-          let timestamp = Date.now();
-          if (dateStr) {
-             const parsed = Date.parse(dateStr);
-             if (!isNaN(parsed)) timestamp = parsed;
-          }
+      const { records, invalid } = parseScanCsv(await readCsvFile(file));
+      const existing = await db.getAllRecords(sessionId);
+      setPendingMerge({ fileName: file.name, rows: classifyMerge(records, existing), invalidCount: invalid.length });
+    } catch (err: any) {
+      console.error(err);
+      alert(err?.message ? `合併失敗：${err.message}` : '合併失敗：檔案讀取錯誤');
+    }
 
-          const description = cols.length > 11 ? cols.slice(11, -1).join(',').trim() : (cols[11] || '');
-
-          newRecords.push({
-            id: Math.random().toString(36).substr(2, 9),
-            InventoryDate: timestamp,
-            PartID: partID,
-            VendorSN: cols[2] || '',
-            Project: cols[3] || '',
-            Class: cols[4] || '',
-            Location: cols[5] || '',
-            Status: (cols[6] as any) || 'OK',
-            Vendor: cols[8] || '',
-            VendorPN: cols[9] || '',
-            CustomerPN: cols[10] || '',
-            Description: description,
-            scannedBy: cols[cols.length - 1] || 'Imported'
-          });
-          
-          currentPartIds.add(partID);
-          addedCount++;
-        } else {
-          skippedCount++;
-        }
-      }
+    e.target.value = '';
+  };
 
-      setRecords(prev => [...prev, ...newRecords]);
-      alert(`合併完成！\n新增: ${addedCount} 筆\n略過(已存在): ${skippedCount} 筆`);
+  const handleApplyMerge = async (choices: Map<string, MergeChoice>, rule: MergeRule) => {
+    if (!pendingMerge) return;
+    const { fileName, rows, invalidCount } = pendingMerge;
 
-    } catch (err) {
+    const added = rows.filter(r => r.kind === 'new').map(r => r.incoming);
+    const conflicts = rows.filter(r => r.kind === 'conflict');
+    const replaced = conflicts
+      .filter(r => choices.get(r.incoming.PartID) === 'incoming')
+      .map(r => ({ ...r.incoming, id: r.existing!.id }));
+    const identical = rows.length - added.length - conflicts.length;
+
+    const summary = `${fileName}：新增 ${added.length}、相同 ${identical}、衝突 ${conflicts.length}` +
+      `（${MERGE_RULE_LABELS[rule]}：採用匯入 ${replaced.length}、保留現有 ${conflicts.length - replaced.length}）` +
+      (invalidCount > 0 ? `、格式錯誤 ${invalidCount}` : '');
+
+    setApplyingMerge(true);
+    try {
+      await db.mergeRecords(sessionId, added, replaced, summary, currentAccount.name);
+      setPendingMerge(null);
+      alert(`合併完成！\n${summary}`);
+    } catch (err: any) {
       console.error(err);
-      alert('合併失敗：檔案讀取錯誤');
+      alert(`合併失敗：${err.message}`);
     }
-
-    e.target.value = '';
+    setApplyingMerge(false);
   };
 
   const handleBackupSystem = async () => {
     setIsProcessingReport(true);
     try {
-      const allMaster = await db.getAll();
-      const backupData = {
-        version: "1.5",
-        timestamp: Date.now(),
-        users: users,
-        records: records,
-        masterCount: allMaster.length
-      };
-      
-      const jsonStr = JSON.stringify(backupData, null, 2);
-      const blob = new Blob([jsonStr], { type: 'application/json' });
+      const blob = await createBackup({
+        sessions: await db.getSessions(),
+        records: await db.records.toArray(),
+        master: await db.getAll(),
+        users: await db.getUsers()
+      }, currentAccount.name, compressBackup);
+
+      const compressed = blob.type !== 'application/json';
       const url = URL.createObjectURL(blob);
       const link = document.createElement("a");
       link.setAttribute("href", url);
-      link.setAttribute("download", `EMM_SystemBackup_${new Date().toISOString().slice(0,10)}.json`);
+      link.setAttribute("download", `EMM_SystemBackup_${new Date().toISOString().slice(0,10)}.json${compressed ? '.gz' : ''}`);
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
 
     } catch (e) {
+      console.error(e);
       alert("備份失敗");
     } finally {
       setIsProcessingReport(false);
     }
   };
 
-  const handleRestoreSystem = (e: React.ChangeEvent<HTMLInputElement>) => {
-     const file = e.target.files?.[0];
-     if (!file) return;
-
-     if(!window.confirm("警告：此操作將「覆蓋」目前的盤點紀錄與使用者名單。\n主檔資料(Master)不會被變更。\n確定要還原嗎？")) {
-       e.target.value = '';
-       return;
-     }
-
-     const reader = new FileReader();
-     reader.onload = (event) => {
-       try {
-         const data = JSON.parse(event.target?.result as string);
-         if (data.users && Array.isArray(data.users)) {
-            setUsers(data.users);
-         }
-         if (data.records && Array.isArray(data.records)) {
-            setRecords(data.records);
-         }
-         alert(`系統還原成功！\n已恢復 ${data.records?.length || 0} 筆紀錄。`);
-       } catch (e) {
-         alert("檔案格式錯誤，無法還原。");
-       }
-     };
-     reader.readAsText(file);
-     e.target.value = '';
+  const handleRestoreSystem = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setPendingRestore({ fileName: file.name, backup: await readBackup(file, sessionId) });
+    } catch (err: any) {
+      alert(err instanceof SyntaxError ? "檔案格式錯誤，無法還原。" : `還原失敗：${err.message}`);
+    }
+    e.target.value = '';
+  };
+
+  const handleApplyRestore = async (mode: RestoreMode) => {
+    if (!pendingRestore) return;
+    const warning = mode === 'replace'
+      ? '警告：此操作將以備份「完全取代」本機的場次、盤點紀錄、帳號' + (pendingRestore.backup.payload.master ? '與主檔' : '') + '。\n(此動作無法復原)\n確定要還原嗎？'
+      : '備份中的資料將與本機合併，相同 ID 的紀錄以備份為準。\n確定要還原嗎？';
+    if (!window.confirm(warning)) return;
+
+    try {
+      await db.restoreBackup(pendingRestore.backup.payload, mode, currentAccount.name);
+      setItemCount(await db.masterItems.count());
+      alert(`系統還原成功！\n已恢復 ${pendingRestore.backup.payload.records.length} 筆紀錄。`);
+      setPendingRestore(null);
+    } catch (err: any) {
+      console.error(err);
+      alert(`還原失敗：${err.message}`);
+    }
+  };
+
+  const handleDownloadImportErrors = async () => {
+    if (!importReport) return;
+    const sheet: ReportSheet = {
+      name: '匯入錯誤',
+      header: ["Line", "PartID", "Reason"],
+      rows: importReport.errors.map(err => [err.line, err.partId, err.reason])
+    };
+    try {
+      await downloadReport([sheet], `TPE_EMM_ImportErrors_${new Date().toISOString().slice(0,10)}`, reportFormat);
+    } catch (e) {
+      console.error(e);
+      alert("匯出失敗");
+    }
+  };
+
+  const changeReportFormat = (format: ReportFormat) => {
+    setReportFormat(format);
+    localStorage.setItem(REPORT_FORMAT_KEY, format);
   };
 
-  const downloadCSV = (content: string, fileName: string) => {
-    const blob = new Blob([content], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.setAttribute("href", url);
-    link.setAttribute("download", fileName);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const changeCsvDelimiter = (delimiter: CsvDelimiter) => {
+    setCsvDelimiterState(delimiter);
+    setCsvDelimiter(delimiter);
   };
 
   const handleExportFullReport = async () => {
     setIsProcessingReport(true);
-    const BOM = "\uFEFF";
-    const header = "盤點日期,PartID,Vendor S/N,Project,Class,Location,ScanStatus,InvStatus,Vendor,Vendor P/N,Customer P/N,Description,User\n";
-    let csvContent = BOM + header;
+    const header = FULL_REPORT_HEADER;
+    const scanned: ReportSheet = { name: '已盤點', header, rows: [] };
+    const missing: ReportSheet = { name: '未盤點', header, rows: [] };
+    const notInMaster: ReportSheet = { name: '不在清單', header, rows: [] };
+
+    // Serialized parts default to one unit on both sides
+    const qtyColumns = (expected: number, counted: number) => [expected, counted, counted - expected];
 
     try {
+      const category = categoryReporter(await db.getCategories());
       const scannedMap = new Map<string, InventoryRecord>();
-      records.forEach(r => scannedMap.set(r.PartID, r));
+      (await db.getAllRecords(sessionId)).forEach(r => scannedMap.set(r.PartID, r));
 
       await db.masterItems.each(master => {
         const record = scannedMap.get(master.PartID);
+        if (!record && session && !isInSessionScope(master, session)) return;
         
         if (record) {
-          const dateStr = new Date(record.InventoryDate).toLocaleString('zh-TW', { hour12: false }).replace(',', '');
-          const row = [
-            dateStr, 
+          scanned.rows.push([
+            new Date(record.InventoryDate), 
             master.PartID, 
             master.VendorSN || '', 
             master.Project || '', 
@@ -344,14 +359,16 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ records, setRecords, on
             master.Vendor || '', 
             master.VendorPN || '', 
             master.CustomerPN || '',
-            `"${(master.Description || '').replace(/"/g, '""')}"`, 
-            record.scannedBy
-          ].join(",");
-          csvContent += row + "\n";
+            master.Description || '', 
+            record.scannedBy,
+            ...qtyColumns(master.ExpectedQty ?? 1, record.Quantity ?? 1),
+            record.FoundLocation || '',
+            category.name(master)
+          ]);
           scannedMap.delete(master.PartID);
         } else {
-          const row = [
-            '', 
+          missing.rows.push([
+            null, 
             master.PartID, 
             master.VendorSN || '', 
             master.Project || '', 
@@ -362,17 +379,18 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ records, setRecords, on
             master.Vendor || '', 
             master.VendorPN || '', 
             master.CustomerPN || '',
-            `"${(master.Description || '').replace(/"/g, '""')}"`, 
-            '-'
-          ].join(",");
-          csvContent += row + "\n";
+            master.Description || '', 
+            '-',
+            ...qtyColumns(master.ExpectedQty ?? 1, 0),
+            '',
+            category.name(master)
+          ]);
         }
       });
 
       scannedMap.forEach(record => {
-        const dateStr = new Date(record.InventoryDate).toLocaleString('zh-TW', { hour12: false }).replace(',', '');
-        const row = [
-          dateStr, 
+        notInMaster.rows.push([
+          new Date(record.InventoryDate), 
           record.PartID, 
           record.VendorSN || '', 
           record.Project || '', 
@@ -383,13 +401,16 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ records, setRecords, on
           record.Vendor || '', 
           record.VendorPN || '', 
           record.CustomerPN || '',
-          `"${(record.Description || '').replace(/"/g, '""')}"`, 
-          record.scannedBy
-        ].join(",");
-        csvContent += row + "\n";
+          record.Description || '', 
+          record.scannedBy,
+          ...qtyColumns(0, record.Quantity ?? 1),
+          record.FoundLocation || '',
+          category.name(record)
+        ]);
       });
+      [scanned, missing, notInMaster].forEach(sheet => category.sort(sheet.rows, header.length - 1));
 
-      downloadCSV(csvContent, `TPE_EMM_FullReport_${new Date().toISOString().slice(0,10)}.csv`);
+      await downloadReport([scanned, missing, notInMaster], `TPE_EMM_FullReport_${new Date().toISOString().slice(0,10)}`, reportFormat);
 
     } catch (e) {
       console.error(e);
@@ -401,17 +422,19 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ records, setRecords, on
 
   const handleExportUnscanned = async () => {
     setIsProcessingReport(true);
-    const BOM = "\uFEFF";
-    const header = "PartID,Vendor S/N,Project,Class,Location,Vendor,Vendor P/N,Customer P/N,Description\n";
-    let csvContent = BOM + header;
+    const sheet: ReportSheet = {
+      name: '未盤點',
+      header: UNSCANNED_REPORT_HEADER,
+      rows: []
+    };
 
     try {
-      const scannedSet = new Set(records.map(r => r.PartID));
-      let count = 0;
+      const category = categoryReporter(await db.getCategories());
+      const scannedSet = await db.getScannedPartIds(sessionId);
 
       await db.masterItems.each(item => {
-        if (!scannedSet.has(item.PartID)) {
-           const row = [
+        if (!scannedSet.has(item.PartID) && (!session || isInSessionScope(item, session))) {
+          sheet.rows.push([
             item.PartID,
             item.VendorSN || '',
             item.Project || '',
@@ -420,17 +443,18 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ records, setRecords, on
             item.Vendor || '',
             item.VendorPN || '',
             item.CustomerPN || '',
-            `"${(item.Description || '').replace(/"/g, '""')}"`
-          ].join(",");
-          csvContent += row + "\n";
-          count++;
+            item.Description || '',
+            item.ExpectedQty,
+            category.name(item)
+          ]);
         }
       });
+      category.sort(sheet.rows, UNSCANNED_REPORT_HEADER.length - 1);
 
-      if (count === 0) {
+      if (sheet.rows.length === 0) {
         alert("恭喜！所有庫存項目皆已盤點完成。");
       } else {
-        downloadCSV(csvContent, `TPE_EMM_Unscanned_${new Date().toISOString().slice(0,10)}.csv`);
+        await downloadReport([sheet], `TPE_EMM_Unscanned_${new Date().toISOString().slice(0,10)}`, reportFormat);
       }
 
     } catch(e) {
@@ -441,26 +465,231 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ records, setRecords, on
     }
   };
 
-  const addUser = () => {
-    if (newUser.trim() && !users.includes(newUser.trim())) {
-      setUsers([...users, newUser.trim()]);
-      setNewUser('');
+  const handleCreateSession = async () => {
+    const name = newSessionName.trim();
+    if (!name) return;
+
+    const active = sessions.find(s => s.status !== 'closed');
+    if (active && !window.confirm(`建立新場次將結束目前的「${active.name}」，結束後該場次僅能檢視與匯出。\n確定要繼續嗎？`)) {
+      return;
+    }
+
+    try {
+      if (active) await db.updateSessionStatus(active.id, 'closed', currentAccount.name);
+      await db.addSession(createSession(name, parseScopeList(newSessionProjects), parseScopeList(newSessionLocations)));
+    } catch (e: any) {
+      console.error(e);
+      alert(`建立場次失敗：${e.message}`);
+      return;
+    }
+    onSelectSession(null);
+
+    setShowNewSession(false);
+    setNewSessionName('');
+    setNewSessionProjects('');
+    setNewSessionLocations('');
+  };
+
+  const handleToggleFreeze = async () => {
+    if (!session || session.status === 'closed') return;
+    try {
+      await db.updateSessionStatus(session.id, session.status === 'open' ? 'frozen' : 'open', currentAccount.name);
+    } catch (e: any) {
+      console.error(e);
+      alert(`更新場次失敗：${e.message}`);
     }
   };
 
-  const removeUser = (u: string) => {
-    setUsers(users.filter(user => user !== u));
+  const handleCloseSession = async () => {
+    if (!session || session.status === 'closed') return;
+    if (!window.confirm(`確定要結束場次「${session.name}」嗎？\n結束後紀錄將變為唯讀，僅能檢視與匯出。`)) return;
+    try {
+      await db.updateSessionStatus(session.id, 'closed', currentAccount.name);
+    } catch (e: any) {
+      console.error(e);
+      alert(`結束場次失敗：${e.message}`);
+    }
   };
 
+  const formatDate = (ts?: number) => ts ? new Date(ts).toLocaleDateString('zh-TW') : '—';
+
   return (
     <div className="space-y-6">
+      {pendingMaster && (
+        <MasterImportMapper
+          fileName={pendingMaster.file.name}
+          rows={pendingMaster.preview.rows.slice(0, 20)}
+          delimiter={pendingMaster.source?.delimiter}
+          onConfirm={handleMasterImport}
+          onCancel={() => setPendingMaster(null)}
+        />
+      )}
+
+      {pendingMerge && (
+        <MergePreview
+          fileName={pendingMerge.fileName}
+          rows={pendingMerge.rows}
+          invalidCount={pendingMerge.invalidCount}
+          applying={applyingMerge}
+          onApply={handleApplyMerge}
+          onCancel={() => setPendingMerge(null)}
+        />
+      )}
+
+      {pendingDiff && (
+        <MasterDiffPreview
+          fileName={pendingDiff.fileName}
+          diff={pendingDiff.diff}
+          applying={applyingDiff}
+          onApply={handleApplyDiff}
+          onCancel={() => setPendingDiff(null)}
+        />
+      )}
+
+      <div className="bg-white px-4 py-3 rounded-xl shadow-sm border border-stone-100 flex justify-between items-center">
+        <div className="flex items-center gap-2 text-xs text-stone-600">
+          <User size={14} className="text-stone-400" />
+          <span className="font-bold text-stone-800">{currentAccount.name}</span>
+          <span className="text-[10px] px-1.5 py-0.5 bg-stone-100 rounded-full">{ROLE_LABELS[currentAccount.role]}</span>
+        </div>
+        <button onClick={onLock} className="flex items-center gap-1 text-[10px] text-stone-400 hover:text-amber-600 transition-colors border border-stone-200 rounded-lg px-2 py-1"><Lock size={12} /> 登出並鎖定</button>
+      </div>
+
+      {isAdmin && (
+      <>
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-stone-100">
+        <div className="flex justify-between items-center mb-4">
+           <h3 className="text-base font-bold text-stone-800 flex items-center gap-2">
+             <CalendarRange size={18} className="text-stone-600" />
+             盤點場次
+           </h3>
+           <button onClick={() => setShowNewSession(!showNewSession)} className="flex items-center gap-1 text-[10px] text-stone-500 hover:text-amber-600 transition-colors border border-stone-200 rounded-lg px-2 py-1">
+             <Plus size={12} /> 新場次
+           </button>
+        </div>
+
+        {showNewSession && (
+          <div className="mb-4 p-3 bg-stone-50 rounded-lg border border-stone-200 space-y-2">
+            <input
+              value={newSessionName}
+              onChange={e => setNewSessionName(e.target.value)}
+              className="w-full px-3 py-2 bg-white border border-stone-200 rounded-lg text-xs focus:outline-none focus:border-stone-500"
+              placeholder="場次名稱 (例如 2026 Q4 盤點)"
+            />
+            <input
+              value={newSessionProjects}
+              onChange={e => setNewSessionProjects(e.target.value)}
+              className="w-full px-3 py-2 bg-white border border-stone-200 rounded-lg text-xs focus:outline-none focus:border-stone-500"
+              placeholder="範圍 Project，以逗號分隔 (留空 = 全部)"
+            />
+            <input
+              value={newSessionLocations}
+              onChange={e => setNewSessionLocations(e.target.value)}
+              className="w-full px-3 py-2 bg-white border border-stone-200 rounded-lg text-xs focus:outline-none focus:border-stone-500"
+              placeholder="範圍 Location，以逗號分隔 (留空 = 全部)"
+            />
+            <button
+              onClick={handleCreateSession}
+              disabled={!newSessionName.trim()}
+              className="w-full py-2 bg-stone-800 text-white rounded-lg text-xs font-bold hover:bg-stone-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              建立並開始盤點
+            </button>
+          </div>
+        )}
+
+        {session ? (
+          <div className="p-3 bg-stone-50 rounded-lg mb-3">
+            <div className="flex justify-between items-center">
+              <span className="font-bold text-stone-800 text-sm truncate">{session.name}</span>
+              <span className={`text-[10px] px-1.5 py-0.5 rounded-full shrink-0 ${
+                session.status === 'open' ? 'bg-emerald-100 text-emerald-700' :
+                session.status === 'frozen' ? 'bg-blue-100 text-blue-700' : 'bg-stone-200 text-stone-600'
+              }`}>{SESSION_STATUS_LABELS[session.status]}</span>
+            </div>
+            <div className="text-[10px] text-stone-400 mt-1 space-y-0.5">
+              <p>{formatDate(session.startDate)} ~ {formatDate(session.endDate)} • {recordCount} 筆紀錄</p>
+              <p>範圍: {session.scopeProjects.length ? session.scopeProjects.join(', ') : '全部 Project'} / {session.scopeLocations.length ? session.scopeLocations.join(', ') : '全部 Location'}</p>
+            </div>
+            {session.status !== 'closed' && (
+              <div className="grid grid-cols-2 gap-2 mt-3">
+                <button onClick={handleToggleFreeze} className="py-2 flex items-center justify-center gap-1 border border-stone-200 bg-white rounded-lg text-[10px] font-bold text-stone-600 hover:bg-stone-100">
+                  {session.status === 'open' ? <><Snowflake size={12} /> 凍結 (暫停掃描)</> : <><Play size={12} /> 恢復掃描</>}
+                </button>
+                <button onClick={handleCloseSession} className="py-2 flex items-center justify-center gap-1 border border-red-200 bg-red-50 rounded-lg text-[10px] font-bold text-red-700 hover:bg-red-100">
+                  <Flag size={12} /> 結束場次
+                </button>
+              </div>
+            )}
+          </div>
+        ) : (
+          <p className="text-xs text-stone-400 mb-3">目前沒有進行中的場次，請建立新場次以開始盤點。</p>
+        )}
+
+        {sessions.length > 1 && (
+          <div className="divide-y divide-stone-100 border border-stone-100 rounded-lg max-h-48 overflow-y-auto">
+            {sessions.map(s => (
+              <button
+                key={s.id}
+                onClick={() => onSelectSession(s.status === 'closed' ? s.id : null)}
+                className={`w-full px-3 py-2 flex justify-between items-center text-left hover:bg-stone-50 transition-colors ${s.id === sessionId ? 'bg-amber-50' : ''}`}
+              >
+                <div className="min-w-0">
+                  <p className="text-xs font-bold text-stone-700 truncate">{s.name}</p>
+                  <p className="text-[10px] text-stone-400">{formatDate(s.startDate)} ~ {formatDate(s.endDate)}</p>
+                </div>
+                <div className="flex flex-col items-end shrink-0">
+                  <span className="text-[10px] text-stone-500">{SESSION_STATUS_LABELS[s.status]}</span>
+                  <span className="text-[10px] font-mono text-stone-400">{sessionCounts[s.id] ?? 0} 筆</span>
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-stone-100">
+        <h3 className="text-base font-bold text-stone-800 mb-4 flex items-center gap-2">
+          <Wifi size={18} className="text-stone-600" />
+          團隊同步
+        </h3>
+        <div className="flex gap-2 mb-2">
+          <input
+            value={syncUrlInput}
+            onChange={e => setSyncUrlInput(e.target.value)}
+            className="flex-1 min-w-0 px-3 py-2 bg-stone-50 border border-stone-200 rounded-lg text-xs font-mono focus:outline-none focus:border-stone-500"
+            placeholder="同步伺服器，例如 192.168.1.20:8787"
+          />
+          <button
+            onClick={() => onSyncUrlChange(syncUrlInput)}
+            className="px-3 py-2 bg-stone-800 text-white rounded-lg text-xs font-bold hover:bg-stone-700"
+          >
+            儲存
+          </button>
+        </div>
+        {syncUrl ? (
+          <div className="flex justify-between items-center text-[10px]">
+            <span className={syncState.online ? 'text-emerald-600' : 'text-stone-400'}>
+              {syncState.online
+                ? `已連線 • ${syncState.devices.length} 台裝置 • 最後同步 ${new Date(syncState.lastSync!).toLocaleTimeString('zh-TW', { hour12: false })}`
+                : `離線${syncState.error ? `：${syncState.error}` : ''}`}
+              {syncPending > 0 && ` • 待上傳 ${syncPending} 筆`}
+            </span>
+            <button onClick={() => onSyncUrlChange('')} className="text-stone-400 hover:text-red-500">
+              停用
+            </button>
+          </div>
+        ) : (
+          <p className="text-[10px] text-stone-400">未啟用：紀錄僅存於本機。啟動方式：npm run sync-server</p>
+        )}
+      </div>
+
       <div className="bg-white p-6 rounded-xl shadow-sm border border-stone-100">
         <div className="flex justify-between items-center mb-4">
            <h3 className="text-base font-bold text-stone-800 flex items-center gap-2">
              <Database size={18} className="text-stone-600" />
              資料庫與合併
            </h3>
-           <button onClick={onLock} className="flex items-center gap-1 text-[10px] text-stone-400 hover:text-amber-600 transition-colors border border-stone-200 rounded-lg px-2 py-1"><Lock size={12} /> 鎖定系統</button>
         </div>
         
         <div className="flex items-center justify-between mb-4 p-3 bg-stone-50 rounded-lg">
@@ -470,9 +699,9 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ records, setRecords, on
           </span>
         </div>
 
-        <input type="file" accept=".csv" ref={fileInputRef} className="hidden" onChange={handleFileUpload} />
-        <input type="file" accept=".csv" ref={mergeInputRef} className="hidden" onChange={handleMergeUpload} />
-        <input type="file" accept=".json" ref={restoreInputRef} className="hidden" onChange={handleRestoreSystem} />
+        <input type="file" accept=".csv,.tsv,.txt,.xlsx" ref={fileInputRef} className="hidden" onChange={handleFileUpload} />
+        <input type="file" accept=".csv,.tsv,.txt" ref={mergeInputRef} className="hidden" onChange={handleMergeUpload} />
+        <input type="file" accept=".json,.gz" ref={restoreInputRef} className="hidden" onChange={handleRestoreSystem} />
 
         <div className="space-y-3">
           {importing ? (
@@ -483,6 +712,9 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ records, setRecords, on
               <div className="w-full bg-stone-100 rounded-full h-2.5">
                 <div className="bg-stone-800 h-2.5 rounded-full" style={{ width: `${progress}%` }}></div>
               </div>
+              <button onClick={handleCancelImport} className="w-full py-1.5 text-[10px] text-stone-500 hover:text-red-600 border border-stone-200 rounded-lg">
+                取消匯入
+              </button>
             </div>
           ) : (
             <button 
@@ -490,9 +722,39 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ records, setRecords, on
               className="w-full py-3 flex items-center justify-center gap-2 bg-stone-800 text-stone-50 rounded-xl active:scale-95 transition-transform hover:bg-stone-700"
             >
               <Upload size={16} />
-              <span className="text-xs">上傳庫存清單 (Master CSV)</span>
+              <span className="text-xs">上傳庫存清單 (CSV / Excel)</span>
             </button>
           )}
+          {!importing && statusMsg && <p className="text-[10px] text-stone-500 text-center">{statusMsg}</p>}
+
+          {importReport && !importing && (
+            <div className={`p-3 rounded-lg border text-xs ${importReport.stats.errors > 0 ? 'bg-amber-50 border-amber-200' : 'bg-emerald-50 border-emerald-200'}`}>
+              <div className="flex justify-between items-center mb-1">
+                <span className="font-bold text-stone-700 truncate">{importReport.fileName}</span>
+                <button onClick={() => setImportReport(null)} className="text-stone-400 hover:text-stone-700 shrink-0"><X size={14} /></button>
+              </div>
+              <p className="text-stone-600">
+                共 {importReport.stats.total} 列 • 成功 <span className="font-bold text-emerald-700">{importReport.stats.success}</span> • 錯誤 <span className="font-bold text-red-600">{importReport.stats.errors}</span>
+              </p>
+              {importReport.stats.success === 0 && <p className="text-red-600 mt-1">沒有可匯入的資料，主檔未變更。</p>}
+              {importReport.errors.length > 0 && (
+                <>
+                  <div className="mt-2 space-y-0.5 text-[10px] text-stone-500 max-h-24 overflow-y-auto">
+                    {importReport.errors.slice(0, 5).map(err => (
+                      <p key={err.line} className="flex items-center gap-1">
+                        <AlertTriangle size={10} className="text-amber-500 shrink-0" />
+                        第 {err.line} 行{err.partId && ` (${err.partId})`}：{err.reason}
+                      </p>
+                    ))}
+                    {importReport.errors.length > 5 && <p>...另有 {importReport.errors.length - 5} 筆</p>}
+                  </div>
+                  <button onClick={handleDownloadImportErrors} className="mt-2 flex items-center gap-1 text-[10px] font-bold text-amber-700 hover:text-amber-900">
+                    <Download size={12} /> 下載錯誤報告 (CSV)
+                  </button>
+                </>
+              )}
+            </div>
+          )}
           
           <div className="grid grid-cols-2 gap-3">
               <button onClick={() => mergeInputRef.current?.click()} className="py-3 flex flex-col items-center justify-center gap-1 border border-dashed border-stone-300 rounded-xl text-stone-600 hover:bg-stone-50 active:scale-95 transition-all">
@@ -507,28 +769,83 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ records, setRecords, on
                 <span className="text-[10px] opacity-70">回復完整備份</span>
               </button>
           </div>
+
+          {pendingRestore && (
+            <div className="p-3 rounded-lg border border-stone-200 bg-stone-50 text-xs">
+              <div className="flex justify-between items-center mb-1">
+                <span className="font-bold text-stone-700 truncate">{pendingRestore.fileName}</span>
+                <button onClick={() => setPendingRestore(null)} className="text-stone-400 hover:text-stone-700 shrink-0"><X size={14} /></button>
+              </div>
+              <p className="text-[10px] text-stone-500">
+                備份格式 v{pendingRestore.backup.schemaVersion}
+                {pendingRestore.backup.schemaVersion < BACKUP_SCHEMA_VERSION && ' (舊版，已轉換)'}
+                {pendingRestore.backup.createdAt > 0 && ` • ${new Date(pendingRestore.backup.createdAt).toLocaleString('zh-TW', { hour12: false })}`}
+                {pendingRestore.backup.createdBy && ` • ${pendingRestore.backup.createdBy}`}
+              </p>
+              <p className="text-[10px] text-stone-500 mb-2">
+                {pendingRestore.backup.payload.sessions.length} 場次 • {pendingRestore.backup.payload.records.length} 紀錄 • {pendingRestore.backup.payload.users.length} 帳號 • {pendingRestore.backup.payload.master ? `${pendingRestore.backup.payload.master.length} 主檔` : '不含主檔'}
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                <button onClick={() => handleApplyRestore('merge')} className="py-2 border border-stone-200 bg-white rounded-lg text-[10px] font-bold text-stone-600 hover:bg-stone-100">
+                  合併至本機
+                </button>
+                <button
+                  onClick={() => handleApplyRestore('replace')}
+                  disabled={pendingRestore.backup.payload.sessions.length === 0}
+                  className="py-2 border border-red-200 bg-red-50 rounded-lg text-[10px] font-bold text-red-700 hover:bg-red-100 disabled:opacity-50"
+                >
+                  全部取代
+                </button>
+              </div>
+            </div>
+          )}
           <p className="text-[10px] text-stone-400 mt-2 text-center">
-             主檔匯入格式: PartID, Vendor S/N, Project, Class, Location, Vendor, Vendor P/N, Customer P/N, Description
+             主檔上傳後可對應欄位，預設格式: PartID, Vendor S/N, Project, Class, Location, Vendor, Vendor P/N, Customer P/N, Description [, Qty]
           </p>
         </div>
       </div>
+      </>
+      )}
 
       <div className="bg-white p-6 rounded-xl shadow-sm border border-stone-100">
         <h3 className="text-base font-bold text-stone-800 mb-4 flex items-center gap-2">
           <FileText size={18} className="text-stone-600" />
           報表中心
+          <div className="ml-auto flex items-center gap-2">
+            {reportFormat === 'csv' && (
+              <select
+                value={csvDelimiter}
+                onChange={e => changeCsvDelimiter(e.target.value as CsvDelimiter)}
+                className="text-[10px] text-stone-600 bg-stone-50 border border-stone-200 rounded-full px-2 py-0.5 font-normal"
+                title="CSV 分隔符號"
+              >
+                {CSV_DELIMITERS.map(d => <option key={d.label} value={d.value}>{d.label}</option>)}
+              </select>
+            )}
+            <div className="flex p-0.5 bg-stone-100 rounded-full border border-stone-200">
+              {(['csv', 'xlsx'] as ReportFormat[]).map(f => (
+                <button
+                  key={f}
+                  onClick={() => changeReportFormat(f)}
+                  className={`text-[10px] px-2 py-0.5 rounded-full transition-colors ${reportFormat === f ? 'bg-stone-800 text-white font-bold' : 'text-stone-500 hover:text-stone-700'}`}
+                >
+                  {f === 'csv' ? 'CSV' : 'Excel'}
+                </button>
+              ))}
+            </div>
+          </div>
         </h3>
         
         <div className="grid grid-cols-1 gap-3">
           <button 
-            onClick={onExportScanned}
-            disabled={records.length === 0}
+            onClick={() => onExportScanned(reportFormat)}
+            disabled={recordCount === 0}
             className="py-3 flex items-center justify-center gap-3 border border-emerald-200 bg-emerald-50 text-emerald-800 rounded-xl disabled:opacity-50 disabled:cursor-not-allowed hover:bg-emerald-100 active:scale-95 transition-all"
           >
             <Download size={18} />
             <div className="flex flex-col items-start">
                <span className="text-sm font-bold">匯出盤點清單</span>
-               <span className="text-[10px] opacity-70">目前已整合過的盤點清單</span>
+               <span className="text-[10px] opacity-70">{session ? `場次「${session.name}」的盤點清單` : '目前已整合過的盤點清單'}</span>
             </div>
           </button>
 
@@ -545,48 +862,49 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ records, setRecords, on
              </button>
           </div>
           
-          <button onClick={handleBackupSystem} className="mt-2 py-2 flex items-center justify-center gap-2 text-stone-500 hover:text-stone-800 hover:bg-stone-50 rounded-lg transition-colors">
-            <Archive size={14} />
-            <span className="text-xs">下載系統完整備份 (.json)</span>
-          </button>
-        </div>
-      </div>
-
-      <div className="bg-white p-6 rounded-xl shadow-sm border border-stone-100">
-        <h3 className="text-base font-bold text-stone-800 mb-4 flex items-center gap-2">
-          <Users size={18} className="text-stone-600" />
-          人員管理
-        </h3>
-        <div className="flex gap-2 mb-4">
-          <input 
-             value={newUser}
-             onChange={e => setNewUser(e.target.value)}
-             className="flex-1 px-3 py-2 bg-stone-50 border border-stone-200 rounded-lg text-xs focus:outline-none focus:border-stone-500"
-             placeholder="新增員工 ID..."
-          />
-          <button onClick={addUser} className="p-2 bg-stone-800 text-white rounded-lg hover:bg-stone-700">
-            <UserPlus size={16} />
-          </button>
-        </div>
-        <div className="flex flex-wrap gap-2">
-          {users.map(u => (
-            <div key={u} className="px-3 py-1 bg-stone-100 rounded-full text-xs flex items-center gap-2 text-stone-700">
-              <span>{u}</span>
-              <button onClick={() => removeUser(u)} className="text-stone-400 hover:text-red-500"><X size={12}/></button>
+          {isAdmin && (
+            <div className="mt-2 flex items-center gap-2">
+              <button onClick={handleBackupSystem} disabled={isProcessingReport} className="flex-1 py-2 flex items-center justify-center gap-2 text-stone-500 hover:text-stone-800 hover:bg-stone-50 rounded-lg transition-colors">
+                <Archive size={14} />
+                <span className="text-xs">下載系統完整備份 (含主檔)</span>
+              </button>
+              {canCompress() && (
+                <label className="flex items-center gap-1 text-[10px] text-stone-400 shrink-0">
+                  <input type="checkbox" checked={compressBackup} onChange={e => setCompressBackup(e.target.checked)} />
+                  壓縮
+                </label>
+              )}
             </div>
-          ))}
+          )}
         </div>
       </div>
 
+      <WedgeSettingsEditor />
+
+      {isAdmin && (
+      <>
+      <UserManagement currentAccount={currentAccount} />
+
+      <RelatedRulesEditor />
+
+      <PayloadRulesEditor />
+
+      <CategoryEditor />
+
+      <SnapshotBrowser currentAccount={currentAccount} />
+
+      <AuditLogViewer />
+
       <div className="mt-6 pt-6 border-t border-stone-100">
         <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
             <button 
+              disabled={!session || session.status === 'closed'}
               onClick={() => {
-                if(window.confirm('確定要清空「已盤點紀錄」嗎？\n主檔資料將被保留。\n(此動作無法復原)')) {
+                if(window.confirm('確定要清空本場次的「已盤點紀錄」嗎？\n主檔資料將被保留。\n(此動作無法復原)')) {
                   onClearRecords();
                 }
               }}
-              className="py-3 px-4 border border-red-200 bg-red-50 text-red-700 rounded-xl text-xs font-bold hover:bg-red-100 transition-colors flex items-center justify-center gap-2"
+              className="py-3 px-4 border border-red-200 bg-red-50 text-red-700 rounded-xl text-xs font-bold hover:bg-red-100 transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <Trash2 size={16} />
               清空已盤點紀錄 (Clear Scanned)
@@ -595,9 +913,14 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ records, setRecords, on
             <button 
               onClick={async () => {
                 if(window.confirm('確定要清空「主檔資料庫 (Master DB)」嗎？\n這將移除所有匯入的料號清單。\n(此動作無法復原)')) {
-                  await db.clearMasterData();
-                  const count = await db.masterItems.count();
-                  setItemCount(count);
+                  try {
+                    await db.clearMasterData(currentAccount.name);
+                    const count = await db.masterItems.count();
+                    setItemCount(count);
+                  } catch (e: any) {
+                    console.error(e);
+                    alert(`清空主檔失敗：${e.message}`);
+                  }
                 }
               }}
               className="py-3 px-4 border border-stone-200 bg-stone-100 text-stone-600 rounded-xl text-xs font-bold hover:bg-stone-200 transition-colors flex items-center justify-center gap-2"
@@ -607,6 +930,8 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ records, setRecords, on
             </button>
         </div>
       </div>
+      </>
+      )}
     </div>
   );
 };
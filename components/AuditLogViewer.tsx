@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { ScrollText, Download, ChevronDown, ChevronRight } from 'lucide-react';
+import { AuditAction, AuditEntry, InventoryRecord } from '../types';
+import { db } from '../utils/db';
+import { ReportSheet, downloadReport } from '../utils/spreadsheet';
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  delete: '刪除紀錄',
+  status_change: '變更狀態',
+  quantity_change: '變更數量',
+  clear: '清空紀錄',
+  merge: '合併 CSV',
+  restore: '系統還原',
+  session_status: '場次狀態',
+  master_clear: '清空主檔',
+  master_sync: '主檔差異同步',
+  master_import: '匯入主檔'
+};
+
+const PAGE_SIZE = 30;
+
+const AuditLogViewer: React.FC = () => {
+  const [actionFilter, setActionFilter] = useState<AuditAction | 'ALL'>('ALL');
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const entries = useLiveQuery(async () => {
+    const collection = actionFilter === 'ALL'
+      ? db.auditLog.orderBy('timestamp').reverse()
+      : db.auditLog.where('action').equals(actionFilter).reverse();
+    return collection.limit(limit).toArray();
+  }, [actionFilter, limit], [] as AuditEntry[]);
+
+  const total = useLiveQuery(
+    () => actionFilter === 'ALL' ? db.auditLog.count() : db.auditLog.where('action').equals(actionFilter).count(),
+    [actionFilter], 0
+  );
+
+  const handleExport = async () => {
+    try {
+      const all = await db.getAuditLog();
+      const sheet: ReportSheet = {
+        name: '操作紀錄',
+        header: ["Timestamp", "Actor", "Action", "SessionID", "RecordIDs", "Before", "After", "Note"],
+        rows: all.map(e => [
+          new Date(e.timestamp).toISOString(),
+          e.actor,
+          e.action,
+          e.sessionId || '',
+          e.recordIds.join(' '),
+          e.before ? JSON.stringify(e.before) : '',
+          e.after ? JSON.stringify(e.after) : '',
+          e.note || ''
+        ])
+      };
+      await downloadReport([sheet], `TPE_EMM_AuditLog_${new Date().toISOString().slice(0,10)}`, 'csv');
+    } catch (e) {
+      console.error(e);
+      alert("匯出失敗");
+    }
+  };
+
+  // One line per changed record: "PartID: Status OK → Checked"
+  const describeChanges = (entry: AuditEntry) => {
+    const before = entry.before || [];
+    const after = entry.after || [];
+    const ids = entry.recordIds.length > 0 ? entry.recordIds : before.map(b => b.id || '');
+    return ids.slice(0, 50).map(id => {
+      const b = before.find(r => r.id === id);
+      const a = after.find(r => r.id === id);
+      const partId = b?.PartID || a?.PartID || id;
+      if (b && a) {
+        const fields = (Object.keys(a) as (keyof InventoryRecord)[]).filter(k => k !== 'id' && k !== 'PartID' && a[k] !== b[k]);
+        return `${partId}: ${fields.map(f => `${f} ${b[f]} → ${a[f]}`).join(', ')}`;
+      }
+      if (b) return `${partId}: 已移除 (${b.Status || ''})`;
+      return `${partId}: 新增 (${a?.Status || ''})`;
+    });
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-stone-100">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-base font-bold text-stone-800 flex items-center gap-2">
+          <ScrollText size={18} className="text-stone-600" />
+          異動紀錄
+        </h3>
+        <button onClick={handleExport} disabled={total === 0} className="flex items-center gap-1 text-[10px] text-stone-500 hover:text-emerald-700 transition-colors border border-stone-200 rounded-lg px-2 py-1 disabled:opacity-50">
+          <Download size={12} /> 匯出 CSV
+        </button>
+      </div>
+
+      <select
+        value={actionFilter}
+        onChange={e => { setActionFilter(e.target.value as AuditAction | 'ALL'); setLimit(PAGE_SIZE); }}
+        className="w-full mb-3 px-2 py-1.5 bg-stone-50 border border-stone-200 rounded-lg text-xs focus:outline-none"
+      >
+        <option value="ALL">全部動作 ({total})</option>
+        {(Object.keys(ACTION_LABELS) as AuditAction[]).map(a => <option key={a} value={a}>{ACTION_LABELS[a]}</option>)}
+      </select>
+
+      {entries.length === 0 ? (
+        <p className="text-xs text-stone-300 py-2 text-center">尚無異動紀錄</p>
+      ) : (
+        <div className="divide-y divide-stone-100 border border-stone-100 rounded-lg max-h-80 overflow-y-auto">
+          {entries.map(e => (
+            <div key={e.id} className="px-3 py-2 text-xs">
+              <button onClick={() => setExpandedId(expandedId === e.id ? null : e.id!)} className="w-full flex items-center gap-2 text-left">
+                {expandedId === e.id ? <ChevronDown size={12} className="text-stone-400" /> : <ChevronRight size={12} className="text-stone-400" />}
+                <span className="font-bold text-stone-700 shrink-0">{ACTION_LABELS[e.action]}</span>
+                <span className="text-stone-500 truncate flex-1">{e.actor}</span>
+                <span className="text-[10px] text-stone-400 font-mono shrink-0">{new Date(e.timestamp).toLocaleString('zh-TW', { hour12: false })}</span>
+              </button>
+              {expandedId === e.id && (
+                <div className="mt-2 ml-5 text-[10px] text-stone-500 space-y-0.5">
+                  {e.note && <p className="text-stone-600">{e.note}</p>}
+                  <p>{e.recordIds.length} 筆紀錄</p>
+                  {describeChanges(e).map((line, i) => <p key={i} className="font-mono break-all">{line}</p>)}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {entries.length < total && (
+        <button onClick={() => setLimit(l => l + PAGE_SIZE)} className="w-full mt-2 py-1.5 text-[10px] text-stone-500 hover:text-stone-800">
+          載入更多
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default AuditLogViewer;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { MapPin, Loader2, Save, Trash2 } from 'lucide-react';
+import { BatchScanItem, ScanStatus } from '../types';
+
+interface BatchScanPanelProps {
+  items: BatchScanItem[]; // Newest first
+  location: string;
+  isCommitting: boolean;
+  onCommit: () => void;
+  onDiscard: () => void;
+}
+
+const STATUS_STYLES: Partial<Record<ScanStatus, { label: string, className: string }>> = {
+  OK: { label: '成功', className: 'bg-emerald-500 text-white' },
+  Misplaced: { label: '儲位不符', className: 'bg-violet-500 text-white' },
+  'Not Found': { label: '查無', className: 'bg-red-500 text-white' },
+  Duplicated: { label: '已盤點', className: 'bg-amber-500 text-stone-900' }
+};
+
+const TALLY_ORDER: ScanStatus[] = ['OK', 'Misplaced', 'Not Found', 'Duplicated'];
+const LIST_LIMIT = 5;
+
+const BatchScanPanel: React.FC<BatchScanPanelProps> = ({ items, location, isCommitting, onCommit, onDiscard }) => {
+  const counts = new Map<ScanStatus, number>();
+  items.forEach(i => counts.set(i.status, (counts.get(i.status) || 0) + 1));
+  const toWrite = items.length - (counts.get('Duplicated') || 0);
+
+  return (
+    <div className="bg-stone-900/85 backdrop-blur-sm text-stone-100 p-3 pb-6 space-y-2 border-t border-stone-700">
+      <div className="flex items-center justify-between text-[10px]">
+        <span className="font-bold text-amber-400 tracking-wider">連續掃描 • {items.length} 筆</span>
+        <span className="flex items-center gap-1 text-stone-400">
+          <MapPin size={10} /> {location || '未設定儲位'}
+        </span>
+      </div>
+
+      <div className="flex gap-1">
+        {TALLY_ORDER.map(status => (
+          <span key={status} className={`flex-1 text-center text-[10px] py-1 rounded-lg ${counts.get(status) ? STATUS_STYLES[status]!.className : 'bg-stone-800 text-stone-500'}`}>
+            {STATUS_STYLES[status]!.label} {counts.get(status) || 0}
+          </span>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        {items.slice(0, LIST_LIMIT).map(({ record, status }) => (
+          <div key={record.PartID} className="flex items-center gap-2 text-xs">
+            <span className={`text-[9px] px-1.5 py-0.5 rounded shrink-0 ${STATUS_STYLES[status]?.className || 'bg-stone-700'}`}>
+              {STATUS_STYLES[status]?.label || status}
+            </span>
+            <span className="font-mono font-bold truncate">{record.PartID}</span>
+            <span className="text-[10px] text-stone-400 truncate">{record.Description}</span>
+          </div>
+        ))}
+        {items.length === 0 && <p className="text-[10px] text-stone-400 text-center py-2">將鏡頭掃過料架，畫面中的條碼會一併讀取</p>}
+        {items.length > LIST_LIMIT && <p className="text-[10px] text-stone-500">…另有 {items.length - LIST_LIMIT} 筆</p>}
+      </div>
+
+      <div className="flex gap-2 pt-1">
+        <button
+          onClick={onDiscard}
+          disabled={items.length === 0 || isCommitting}
+          className="px-3 py-2 flex items-center gap-1 text-xs text-stone-300 border border-stone-600 rounded-lg hover:bg-stone-800 disabled:opacity-40"
+        >
+          <Trash2 size={14} /> 放棄
+        </button>
+        <button
+          onClick={onCommit}
+          disabled={toWrite === 0 || isCommitting}
+          className="flex-1 py-2 flex items-center justify-center gap-1 text-xs font-bold bg-amber-500 text-stone-900 rounded-lg hover:bg-amber-400 disabled:opacity-40"
+        >
+          {isCommitting ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />}
+          寫入 {toWrite} 筆
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BatchScanPanel;
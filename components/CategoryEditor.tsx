@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Tags, ArrowUp, ArrowDown, Trash2, Plus, RotateCcw, Save } from 'lucide-react';
+import { CategoryDef, CategoryField, CategoryMatchType } from '../types';
+import { db } from '../utils/db';
+import { CATEGORY_TYPE_LABELS, CATEGORY_FIELD_LABELS, DEFAULT_CATEGORIES, OTHER_CATEGORY_NAME, validateCategory } from '../utils/categories';
+
+const PATTERN_PLACEHOLDER: Record<CategoryMatchType, string> = {
+  prefix: '例如 A26',
+  regex: '例如 ^(A26|A27)',
+  field: '欄位值，例如 A26'
+};
+
+const CategoryEditor: React.FC = () => {
+  const saved = useLiveQuery(() => db.getCategories(), []);
+  const [draft, setDraft] = useState<CategoryDef[] | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the stored table; edits stay local until saved, since reports and progress regroup at once
+  useEffect(() => {
+    if (saved && draft === null) setDraft(saved);
+  }, [saved, draft]);
+
+  if (!draft) return null;
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(saved);
+  const errors = draft.map(validateCategory);
+
+  const patch = (index: number, changes: Partial<CategoryDef>) =>
+    setDraft(draft.map((c, i) => i === index ? { ...c, ...changes } : c));
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= draft.length) return;
+    const next = [...draft];
+    [next[index], next[target]] = [next[target], next[index]];
+    setDraft(next.map((c, i) => ({ ...c, order: i })));
+  };
+
+  const handleAdd = () => {
+    setDraft([...draft, {
+      id: Math.random().toString(36).substr(2, 9),
+      name: '',
+      type: 'prefix',
+      pattern: '',
+      order: draft.length
+    }]);
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('確定要還原為預設分類嗎？（尚未儲存）')) return;
+    setDraft(DEFAULT_CATEGORIES);
+  };
+
+  const handleSave = async () => {
+    const firstError = errors.findIndex(e => e);
+    if (firstError >= 0) {
+      alert(`第 ${firstError + 1} 個分類：${errors[firstError]}`);
+      return;
+    }
+    const names = draft.map(c => c.name.trim());
+    if (new Set(names).size !== names.length) {
+      alert('分類名稱不可重複');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const next = draft.map((c, i) => ({ ...c, name: c.name.trim(), pattern: c.pattern.trim(), order: i }));
+      await db.saveCategories(next);
+      setDraft(next);
+    } catch (e: any) {
+      alert(e.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-stone-100">
+      <div className="flex justify-between items-center mb-1">
+        <h3 className="text-base font-bold text-stone-800 flex items-center gap-2">
+          <Tags size={18} className="text-stone-600" />
+          專案分類
+        </h3>
+        <button onClick={handleReset} className="flex items-center gap-1 text-[10px] text-stone-500 hover:text-stone-800 border border-stone-200 rounded-lg px-2 py-1">
+          <RotateCcw size={12} /> 預設
+        </button>
+      </div>
+      <p className="text-[10px] text-stone-400 mb-4">盤點進度、未盤點清單與報表依此分組；依序比對，皆不符合者歸入「{OTHER_CATEGORY_NAME}」。</p>
+
+      <div className="space-y-2">
+        {draft.map((cat, i) => (
+          <div key={cat.id} className="p-3 rounded-lg border border-stone-200 text-xs">
+            <div className="flex items-center gap-2 mb-2">
+              <span className="font-mono text-[10px] text-stone-400 w-4">{i + 1}</span>
+              <input
+                value={cat.name}
+                onChange={(e) => patch(i, { name: e.target.value })}
+                placeholder="分類名稱"
+                className="flex-1 min-w-0 px-2 py-1 border border-stone-200 rounded-md focus:outline-none focus:border-stone-400"
+              />
+              <div className="flex items-center gap-1">
+                <button onClick={() => move(i, -1)} disabled={i === 0} className="p-1 text-stone-400 hover:text-stone-700 disabled:opacity-30" title="提高優先順序"><ArrowUp size={12} /></button>
+                <button onClick={() => move(i, 1)} disabled={i === draft.length - 1} className="p-1 text-stone-400 hover:text-stone-700 disabled:opacity-30" title="降低優先順序"><ArrowDown size={12} /></button>
+                <button onClick={() => setDraft(draft.filter((_, j) => j !== i).map((c, j) => ({ ...c, order: j })))} className="p-1 text-stone-400 hover:text-red-600" title="刪除分類"><Trash2 size={12} /></button>
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <select
+                value={cat.type}
+                onChange={(e) => patch(i, { type: e.target.value as CategoryMatchType })}
+                className="px-2 py-1 border border-stone-200 rounded-md bg-white focus:outline-none"
+              >
+                {(Object.keys(CATEGORY_TYPE_LABELS) as CategoryMatchType[]).map(t => (
+                  <option key={t} value={t}>{CATEGORY_TYPE_LABELS[t]}</option>
+                ))}
+              </select>
+              {cat.type === 'field' && (
+                <select
+                  value={cat.field || ''}
+                  onChange={(e) => patch(i, { field: (e.target.value || undefined) as CategoryField | undefined })}
+                  className="px-2 py-1 border border-stone-200 rounded-md bg-white focus:outline-none"
+                >
+                  <option value="">選擇欄位</option>
+                  {(Object.keys(CATEGORY_FIELD_LABELS) as CategoryField[]).map(f => (
+                    <option key={f} value={f}>{CATEGORY_FIELD_LABELS[f]}</option>
+                  ))}
+                </select>
+              )}
+              <input
+                value={cat.pattern}
+                onChange={(e) => patch(i, { pattern: e.target.value })}
+                placeholder={PATTERN_PLACEHOLDER[cat.type]}
+                className="flex-1 min-w-0 px-2 py-1 border border-stone-200 rounded-md font-mono focus:outline-none focus:border-stone-400"
+              />
+            </div>
+            {errors[i] && <p className="text-[10px] text-amber-600 mt-2">{errors[i]}</p>}
+          </div>
+        ))}
+      </div>
+
+      <button onClick={handleAdd} className="mt-3 w-full py-2 flex items-center justify-center gap-1 text-xs text-stone-500 border border-dashed border-stone-300 rounded-lg hover:bg-stone-50">
+        <Plus size={14} /> 新增分類
+      </button>
+
+      <button
+        onClick={handleSave}
+        disabled={!dirty || isSaving}
+        className="mt-2 w-full py-2 flex items-center justify-center gap-1 text-xs font-bold text-white bg-stone-800 rounded-lg hover:bg-stone-700 disabled:opacity-40"
+      >
+        <Save size={14} /> {isSaving ? '儲存中...' : '儲存分類'}
+      </button>
+    </div>
+  );
+};
+
+export default CategoryEditor;
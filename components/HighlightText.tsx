@@ -0,0 +1,25 @@
+import React from 'react';
+import { matchRanges } from '../utils/search';
+
+interface HighlightTextProps {
+  text: string;
+  query: string;
+}
+
+// Marks the parts of text that matched the search query
+const HighlightText: React.FC<HighlightTextProps> = ({ text, query }) => {
+  const ranges = matchRanges(text, query);
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let pos = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > pos) parts.push(text.slice(pos, start));
+    parts.push(<mark key={start} className="bg-amber-100 text-inherit rounded-sm">{text.slice(start, end)}</mark>);
+    pos = end;
+  });
+  if (pos < text.length) parts.push(text.slice(pos));
+  return <>{parts}</>;
+};
+
+export default HighlightText;
@@ -1,10 +1,14 @@
-import React, { useState, useMemo, useEffect } from 'react';
-import { Search, Trash2, CheckSquare, Square, Calendar, Check, Box, History, Tag } from 'lucide-react';
-import { InventoryRecord, ScanStatus, MasterItem } from '../types';
+import React, { useState, useEffect } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Search, Trash2, CheckSquare, Square, Calendar, Check, Box, History, Tag, Lock } from 'lucide-react';
+import { InventoryRecord, ScanStatus, InventorySession, RelatedMatch, LookupField } from '../types';
 import { db } from '../utils/db';
+import { loadRelatedRules, ruleLabel } from '../utils/related';
+import { LOOKUP_FIELD_LABELS } from '../utils/payload';
 
 interface HistoryListProps {
-  records: InventoryRecord[];
+  session?: InventorySession;
+  canEdit: boolean; // false for viewer accounts
   onDelete: (ids: string[]) => void;
   onUpdateStatus: (ids: string[], status: ScanStatus) => void;
   lastRecord?: InventoryRecord;
@@ -12,7 +16,12 @@ interface HistoryListProps {
 
 type ListMode = 'HISTORY' | 'RELATED';
 
-const HistoryList: React.FC<HistoryListProps> = ({ records, onDelete, onUpdateStatus, lastRecord }) => {
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const HistoryList: React.FC<HistoryListProps> = ({ session, canEdit, onDelete, onUpdateStatus, lastRecord }) => {
+  const sessionId = session?.id || '';
+  const isReadOnly = session?.status === 'closed';
+
   const [mode, setMode] = useState<ListMode>('HISTORY');
   const [searchTerm, setSearchTerm] = useState('');
   const [startDate, setStartDate] = useState('');
@@ -20,7 +29,7 @@ const HistoryList: React.FC<HistoryListProps> = ({ records, onDelete, onUpdateSt
   const [page, setPage] = useState(1);
   const itemsPerPage = 20;
   
-  const [relatedItems, setRelatedItems] = useState<MasterItem[]>([]);
+  const [relatedItems, setRelatedItems] = useState<RelatedMatch[]>([]);
   const [relatedLoading, setRelatedLoading] = useState(false);
   
   const [isSelectionMode, setIsSelectionMode] = useState(false);
@@ -31,37 +40,43 @@ const HistoryList: React.FC<HistoryListProps> = ({ records, onDelete, onUpdateSt
       setMode('RELATED');
       setRelatedLoading(true);
       
-      db.findRelatedItems({
-        VendorPN: lastRecord.VendorPN,
-        Description: lastRecord.Description
-      }).then(items => {
+      db.findRelatedItems(lastRecord, loadRelatedRules()).then(items => {
         setRelatedItems(items);
         setRelatedLoading(false);
       });
     }
   }, [lastRecord]);
 
-  const filteredHistory = useMemo(() => {
-    return records.filter(r => {
-      const term = searchTerm.toLowerCase();
-      const matchesSearch = 
-        r.PartID.toLowerCase().includes(term) || 
-        (r.Description?.toLowerCase().includes(term) || false);
-      
-      const recordDate = new Date(r.InventoryDate).toISOString().split('T')[0];
-      
-      let matchesDate = true;
-      if (startDate && recordDate < startDate) matchesDate = false;
-      if (endDate && recordDate > endDate) matchesDate = false;
+  // Session + date range run on the compound index, text search on the narrowed set
+  const historyPage = useLiveQuery(async () => {
+    const term = searchTerm.toLowerCase();
+    const from = startDate ? Date.parse(startDate) : 0;
+    const to = endDate ? Date.parse(endDate) + DAY_MS - 1 : Number.MAX_SAFE_INTEGER;
+
+    const query = () => {
+      const collection = db.records
+        .where('[sessionId+InventoryDate]').between([sessionId, from], [sessionId, to], true, true)
+        .reverse();
+      if (!term) return collection;
+      return collection.filter(r =>
+        r.PartID.toLowerCase().includes(term) ||
+        (r.Description?.toLowerCase().includes(term) || false)
+      );
+    };
 
-      return matchesSearch && matchesDate;
-    }).sort((a, b) => b.InventoryDate - a.InventoryDate);
-  }, [records, searchTerm, startDate, endDate]);
+    const total = await query().count();
+    const items = await query().offset((page - 1) * itemsPerPage).limit(itemsPerPage).toArray();
+    return { total, items };
+  }, [sessionId, searchTerm, startDate, endDate, page], { total: 0, items: [] as InventoryRecord[] });
 
-  const totalPages = Math.ceil(filteredHistory.length / itemsPerPage);
-  const paginatedHistory = filteredHistory.slice((page - 1) * itemsPerPage, page * itemsPerPage);
+  const totalPages = Math.ceil(historyPage.total / itemsPerPage);
+  const paginatedHistory = historyPage.items;
 
-  const scannedPartIds = useMemo(() => new Set(records.map(r => r.PartID)), [records]);
+  const scannedPartIds = useLiveQuery(async () => {
+    if (relatedItems.length === 0) return new Set<string>();
+    const scanned = await db.records.where('PartID').anyOf(relatedItems.map(m => m.item.PartID)).toArray();
+    return new Set(scanned.filter(r => r.sessionId === sessionId).map(r => r.PartID));
+  }, [sessionId, relatedItems], new Set<string>());
 
   const toggleSelection = (id: string) => {
     const newSet = new Set(selectedIds);
@@ -78,7 +93,7 @@ const HistoryList: React.FC<HistoryListProps> = ({ records, onDelete, onUpdateSt
   };
 
   const handleLongPress = (id: string) => {
-    if (mode === 'HISTORY' && !isSelectionMode) {
+    if (mode === 'HISTORY' && !isSelectionMode && !isReadOnly && canEdit) {
       setIsSelectionMode(true);
       setSelectedIds(new Set([id]));
       if (navigator.vibrate) navigator.vibrate(50);
@@ -157,6 +172,12 @@ const HistoryList: React.FC<HistoryListProps> = ({ records, onDelete, onUpdateSt
       ) : (
         mode === 'HISTORY' && (
           <div className="flex flex-col gap-2 sticky top-0 bg-stone-50 z-10 py-2">
+            {isReadOnly && (
+              <div className="flex items-center gap-2 px-3 py-2 bg-stone-200 rounded-lg text-[10px] text-stone-600">
+                <Lock size={12} />
+                <span>場次「{session?.name}」已結束，紀錄僅供檢視</span>
+              </div>
+            )}
             <div className="relative">
               <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400" size={16} />
               <input
@@ -224,7 +245,7 @@ const HistoryList: React.FC<HistoryListProps> = ({ records, onDelete, onUpdateSt
              ) : (
                 <>
                   <div className="bg-stone-800 text-stone-50 p-4 rounded-xl shadow-md mb-4">
-                     <h4 className="text-[10px] text-stone-400 mb-1 uppercase tracking-wider">當前比對說明 (Full Description)</h4>
+                     <h4 className="text-[10px] text-stone-400 mb-1 uppercase tracking-wider">{lastRecord.PartID} • 比對依據</h4>
                      {/* Show FULL Description */}
                      <p className="font-bold text-sm leading-relaxed text-stone-100 max-h-24 overflow-y-auto">{lastRecord.Description || 'NA'}</p>
                      <div className="flex justify-between items-end mt-2">
@@ -243,10 +264,12 @@ const HistoryList: React.FC<HistoryListProps> = ({ records, onDelete, onUpdateSt
                   ) : relatedItems.length === 0 ? (
                      <div className="text-center py-4 text-stone-500">
                         <p className="text-sm">找不到其他同款項目</p>
-                        <p className="text-[10px] opacity-60 mt-1">已使用完整 Description 進行比對</p>
+                        <p className="text-[10px] opacity-60 mt-1">
+                          已依規則比對：{loadRelatedRules().filter(r => r.enabled).map(ruleLabel).join('、') || '無啟用規則'}
+                        </p>
                      </div>
                   ) : (
-                     relatedItems.map((item) => {
+                     relatedItems.map(({ item, rule }) => {
                        const isScanned = scannedPartIds.has(item.PartID);
                        return (
                          <div key={item.PartID} className={`p-4 rounded-xl border flex justify-between items-start ${
@@ -262,6 +285,9 @@ const HistoryList: React.FC<HistoryListProps> = ({ records, onDelete, onUpdateSt
                                   ) : (
                                     <span className="text-[10px] px-1.5 py-0.5 bg-stone-100 text-stone-500 rounded-full shrink-0">未盤</span>
                                   )}
+                                  <span className="ml-auto text-[10px] px-1.5 py-0.5 bg-amber-50 text-amber-700 border border-amber-100 rounded-full shrink-0" title="符合的比對規則">
+                                    同{ruleLabel(rule)}
+                                  </span>
                                </div>
                                
                                {/* Display Class */}
@@ -355,6 +381,8 @@ const HistoryItem = ({ record, isSelectionMode, isSelected, onToggle, onLongPres
              {record.Status === 'Not Found' && <span className="text-[10px] px-1.5 py-0.5 bg-red-100 text-red-700 rounded-full shrink-0">未建檔</span>}
              {record.Status === 'Duplicated' && <span className="text-[10px] px-1.5 py-0.5 bg-amber-100 text-amber-700 rounded-full shrink-0">重複</span>}
              {record.Status === 'Checked' && <span className="text-[10px] px-1.5 py-0.5 bg-blue-100 text-blue-700 rounded-full shrink-0">已確認</span>}
+             {record.Status === 'Misplaced' && <span className="text-[10px] px-1.5 py-0.5 bg-violet-100 text-violet-700 rounded-full shrink-0">儲位不符</span>}
+             {(record.Quantity ?? 1) !== 1 && <span className="text-[10px] px-1.5 py-0.5 bg-stone-100 text-stone-600 rounded-full shrink-0 font-mono">×{record.Quantity}</span>}
           </div>
           
           {/* Display Class */}
@@ -369,6 +397,8 @@ const HistoryItem = ({ record, isSelectionMode, isSelected, onToggle, onLongPres
           <p className="text-stone-600 text-xs mt-1 leading-relaxed whitespace-pre-wrap">{record.Description || '未知品項'}</p>
           <div className="flex gap-3 mt-1.5 text-[10px] text-stone-400">
             <span>{new Date(record.InventoryDate).toLocaleString()}</span>
+            {record.FoundLocation && <span>@ {record.FoundLocation}</span>}
+            {record.MatchedBy && <span>依{LOOKUP_FIELD_LABELS[record.MatchedBy as LookupField]}</span>}
             <span>{record.scannedBy}</span>
           </div>
         </div>
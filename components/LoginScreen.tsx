@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { Lock, Eye, EyeOff, ArrowLeft, ShieldCheck } from 'lucide-react';
+import { UserAccount } from '../types';
+import { db } from '../utils/db';
+import { ROLE_LABELS, PIN_PATTERN, createAccount, verifyPin } from '../utils/auth';
+
+interface LoginScreenProps {
+  accounts: UserAccount[];
+  onLogin: (name: string) => void;
+}
+
+const LoginScreen: React.FC<LoginScreenProps> = ({ accounts, onLogin }) => {
+  const [selected, setSelected] = useState<UserAccount | null>(null);
+  const [pinInput, setPinInput] = useState('');
+  const [authError, setAuthError] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+
+  // First-run setup
+  const [setupName, setSetupName] = useState('');
+  const [setupPin, setSetupPin] = useState('');
+  const [setupPinConfirm, setSetupPinConfirm] = useState('');
+
+  const hasAdmin = accounts.some(a => a.role === 'admin' && a.pinHash);
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected || verifying) return;
+
+    setVerifying(true);
+    const ok = await verifyPin(selected, pinInput);
+    setVerifying(false);
+    setPinInput('');
+
+    if (ok) {
+      setAuthError('');
+      onLogin(selected.name);
+    } else {
+      setAuthError('PIN 錯誤');
+    }
+  };
+
+  const handleSetup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = setupName.trim();
+    if (!name) return setAuthError('請輸入管理員名稱');
+    if (!PIN_PATTERN.test(setupPin)) return setAuthError('PIN 需為 4-8 位數字');
+    if (setupPin !== setupPinConfirm) return setAuthError('兩次輸入的 PIN 不一致');
+
+    await db.putUser(await createAccount(name, 'admin', setupPin));
+    setAuthError('');
+    onLogin(name);
+  };
+
+  // --- First Admin Setup ---
+  if (!hasAdmin) {
+    return (
+      <div className="h-screen bg-stone-800 flex flex-col items-center justify-center p-6 text-stone-50">
+        <div className="w-16 h-16 bg-stone-700 rounded-full flex items-center justify-center mb-6">
+          <ShieldCheck size={32} className="text-amber-500" />
+        </div>
+        <h1 className="text-xl font-bold mb-2">建立管理員帳號</h1>
+        <p className="text-stone-400 text-xs mb-8 text-center">首次使用，請設定管理員名稱與 PIN 碼</p>
+
+        <form onSubmit={handleSetup} className="w-full max-w-xs space-y-3">
+          <input
+            value={setupName}
+            onChange={(e) => setSetupName(e.target.value)}
+            className="w-full bg-stone-700 border border-stone-600 rounded-xl px-4 py-3 text-center focus:outline-none focus:border-amber-500 transition-colors"
+            placeholder="管理員名稱"
+          />
+          <input
+            type="password"
+            value={setupPin}
+            onChange={(e) => setSetupPin(e.target.value)}
+            className="w-full bg-stone-700 border border-stone-600 rounded-xl px-4 py-3 text-center text-lg tracking-widest focus:outline-none focus:border-amber-500 transition-colors"
+            placeholder="PIN (4-8 位數字)"
+            inputMode="numeric"
+            maxLength={8}
+          />
+          <input
+            type="password"
+            value={setupPinConfirm}
+            onChange={(e) => setSetupPinConfirm(e.target.value)}
+            className="w-full bg-stone-700 border border-stone-600 rounded-xl px-4 py-3 text-center text-lg tracking-widest focus:outline-none focus:border-amber-500 transition-colors"
+            placeholder="再次輸入 PIN"
+            inputMode="numeric"
+            maxLength={8}
+          />
+          {authError && <p className="text-red-400 text-xs text-center">{authError}</p>}
+          <button
+            type="submit"
+            className="w-full bg-amber-600 text-white rounded-xl py-3 font-bold active:scale-95 transition-transform"
+          >
+            建立並登入
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  // --- PIN Entry ---
+  if (selected) {
+    return (
+      <div className="h-screen bg-stone-800 flex flex-col items-center justify-center p-6 text-stone-50">
+        <button
+          onClick={() => { setSelected(null); setPinInput(''); setAuthError(''); }}
+          className="absolute top-6 left-6 p-2 text-stone-400 hover:text-stone-200"
+        >
+          <ArrowLeft size={20} />
+        </button>
+        <div className="w-16 h-16 bg-stone-700 rounded-full flex items-center justify-center mb-6">
+          <Lock size={32} className="text-amber-500" />
+        </div>
+        <h1 className="text-xl font-bold mb-2">{selected.name}</h1>
+        <p className="text-stone-400 text-xs mb-8">{ROLE_LABELS[selected.role]} • 請輸入 PIN 碼以繼續</p>
+
+        <form onSubmit={handleLogin} className="w-full max-w-xs space-y-4">
+          <div className="relative">
+            <input
+              type={showPassword ? "text" : "password"}
+              value={pinInput}
+              onChange={(e) => setPinInput(e.target.value)}
+              className="w-full bg-stone-700 border border-stone-600 rounded-xl px-4 py-3 pr-12 text-center text-lg tracking-widest focus:outline-none focus:border-amber-500 transition-colors"
+              placeholder="••••"
+              inputMode="numeric"
+              maxLength={8}
+              autoFocus
+            />
+            <button
+              type="button"
+              onClick={() => setShowPassword(!showPassword)}
+              className="absolute right-3 top-1/2 -translate-y-1/2 p-2 text-stone-400 hover:text-stone-200 transition-colors"
+            >
+              {showPassword ? <EyeOff size={20} /> : <Eye size={20} />}
+            </button>
+          </div>
+          {authError && <p className="text-red-400 text-xs text-center">{authError}</p>}
+          <button
+            type="submit"
+            disabled={verifying}
+            className="w-full bg-amber-600 text-white rounded-xl py-3 font-bold active:scale-95 transition-transform disabled:opacity-60"
+          >
+            {verifying ? '驗證中...' : '解鎖'}
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  // --- User Select ---
+  return (
+    <div className="h-screen bg-stone-50 flex flex-col items-center justify-center p-6 animate-in fade-in duration-500">
+      <div className="mb-10 text-center">
+        <div className="w-20 h-20 bg-stone-800 rounded-3xl mx-auto mb-6 flex items-center justify-center shadow-xl shadow-stone-200">
+          <div className="w-4 h-4 bg-amber-500 rounded-full animate-bounce-short"></div>
+        </div>
+        <h1 className="text-lg font-bold text-stone-800 tracking-tight mb-2">EMM 盤點系統</h1>
+        <p className="text-stone-400 text-sm">請選擇您的帳號以登入</p>
+      </div>
+
+      <div className="w-full max-w-sm grid grid-cols-2 gap-3">
+        {accounts.map(a => (
+          <button
+            key={a.name}
+            disabled={!a.pinHash}
+            onClick={() => setSelected(a)}
+            className="p-4 bg-white border-2 border-stone-100 rounded-2xl font-bold text-stone-600 hover:border-amber-500 hover:text-amber-600 hover:bg-amber-50 transition-all active:scale-95 shadow-sm text-sm disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:border-stone-100 disabled:hover:bg-white disabled:hover:text-stone-600"
+          >
+            {a.name}
+            <span className="block text-[10px] font-normal text-stone-400 mt-0.5">
+              {a.pinHash ? ROLE_LABELS[a.role] : '尚未設定 PIN'}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      <div className="mt-12 text-[10px] text-stone-300">
+        Version 1.5 • Offline First
+      </div>
+    </div>
+  );
+};
+
+export default LoginScreen;
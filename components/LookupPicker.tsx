@@ -0,0 +1,55 @@
+import React from 'react';
+import { ListChecks, MapPin, X } from 'lucide-react';
+import { LookupField, MasterItem } from '../types';
+import { LOOKUP_FIELD_LABELS } from '../utils/payload';
+
+interface LookupPickerProps {
+  code: string;
+  matchedBy: LookupField;
+  candidates: MasterItem[];
+  onPick: (item: MasterItem) => void;
+  onCancel: () => void;
+}
+
+// Shown over the scan view (and the camera) when a label's identifier belongs to several parts
+const LookupPicker: React.FC<LookupPickerProps> = ({ code, matchedBy, candidates, onPick, onCancel }) => (
+  <div className="fixed inset-0 z-[80] bg-stone-900/60 flex items-center justify-center p-4">
+    <div className="bg-white rounded-xl shadow-xl w-full max-w-md max-h-[80vh] flex flex-col p-6">
+      <div className="flex justify-between items-center mb-1">
+        <h3 className="text-base font-bold text-stone-800 flex items-center gap-2">
+          <ListChecks size={18} className="text-stone-600" />
+          請選擇品項
+        </h3>
+        <button onClick={onCancel} className="text-stone-400 hover:text-stone-700"><X size={18} /></button>
+      </div>
+      <p className="text-[10px] text-stone-400 mb-4 break-all">
+        {LOOKUP_FIELD_LABELS[matchedBy]} <span className="font-mono text-stone-600">{code}</span> 符合 {candidates.length} 筆主檔
+      </p>
+
+      <div className="flex-1 min-h-0 overflow-y-auto border border-stone-100 rounded-lg divide-y divide-stone-100 mb-4">
+        {candidates.map(item => (
+          <button key={item.PartID} onClick={() => onPick(item)} className="w-full text-left px-3 py-2 text-xs hover:bg-amber-50 active:bg-amber-100">
+            <div className="flex items-center gap-2">
+              <span className="font-mono font-bold text-stone-800 break-all">{item.PartID}</span>
+              {item.Location && (
+                <span className="ml-auto flex items-center gap-0.5 text-[10px] text-stone-400 shrink-0">
+                  <MapPin size={10} /> {item.Location}
+                </span>
+              )}
+            </div>
+            <p className="text-stone-500 mt-0.5 line-clamp-2">{item.Description || '未知品項'}</p>
+            <p className="text-[10px] text-stone-400 mt-0.5">
+              {[item.Project, item.VendorSN && `SN ${item.VendorSN}`].filter(Boolean).join(' • ')}
+            </p>
+          </button>
+        ))}
+      </div>
+
+      <button onClick={onCancel} className="w-full py-2 border border-stone-200 rounded-lg text-xs text-stone-600 hover:bg-stone-50">
+        取消，不記錄
+      </button>
+    </div>
+  </div>
+);
+
+export default LookupPicker;
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { GitCompare, X } from 'lucide-react';
+import { MasterDiff } from '../types';
+
+interface MasterDiffPreviewProps {
+  fileName: string;
+  diff: MasterDiff;
+  applying: boolean;
+  onApply: () => void;
+  onCancel: () => void;
+}
+
+type DiffTab = 'added' | 'removed' | 'modified';
+
+const LIST_LIMIT = 100;
+
+const MasterDiffPreview: React.FC<MasterDiffPreviewProps> = ({ fileName, diff, applying, onApply, onCancel }) => {
+  const [tab, setTab] = useState<DiffTab>(diff.modified.length > 0 ? 'modified' : diff.added.length > 0 ? 'added' : 'removed');
+  const hasChanges = diff.added.length + diff.removed.length + diff.modified.length > 0;
+
+  const tabs: { key: DiffTab, label: string, count: number, color: string }[] = [
+    { key: 'added', label: '新增', count: diff.added.length, color: 'text-emerald-700' },
+    { key: 'removed', label: '移除', count: diff.removed.length, color: 'text-red-600' },
+    { key: 'modified', label: '變更', count: diff.modified.length, color: 'text-amber-700' }
+  ];
+
+  const listLength = tab === 'modified' ? diff.modified.length : diff[tab].length;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-stone-900/60 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col p-6">
+        <div className="flex justify-between items-center mb-1">
+          <h3 className="text-base font-bold text-stone-800 flex items-center gap-2">
+            <GitCompare size={18} className="text-stone-600" />
+            主檔差異預覽
+          </h3>
+          <button onClick={onCancel} disabled={applying} className="text-stone-400 hover:text-stone-700"><X size={18} /></button>
+        </div>
+        <p className="text-[10px] text-stone-400 mb-4 truncate">{fileName} • 未變更 {diff.unchanged} 筆</p>
+
+        <div className="grid grid-cols-3 gap-2 mb-3">
+          {tabs.map(t => (
+            <button
+              key={t.key}
+              onClick={() => setTab(t.key)}
+              className={`py-2 rounded-lg border text-xs transition-colors ${tab === t.key ? 'border-stone-800 bg-stone-50' : 'border-stone-200 hover:bg-stone-50'}`}
+            >
+              <span className={`block font-mono font-bold text-base ${t.color}`}>{t.count}</span>
+              <span className="text-stone-500">{t.label}</span>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto border border-stone-100 rounded-lg divide-y divide-stone-100 mb-4">
+          {listLength === 0 && <p className="text-xs text-stone-300 py-4 text-center">無資料</p>}
+          {tab !== 'modified' && diff[tab].slice(0, LIST_LIMIT).map(item => (
+            <div key={item.PartID} className="px-3 py-2 text-xs">
+              <span className="font-mono font-bold text-stone-700">{item.PartID}</span>
+              <span className="text-stone-400 ml-2">{item.Description}</span>
+            </div>
+          ))}
+          {tab === 'modified' && diff.modified.slice(0, LIST_LIMIT).map(m => (
+            <div key={m.after.PartID} className="px-3 py-2 text-xs">
+              <span className="font-mono font-bold text-stone-700">{m.after.PartID}</span>
+              <div className="mt-1 space-y-0.5 text-[10px]">
+                {m.changes.map(c => (
+                  <p key={c.field} className="break-all">
+                    <span className="text-stone-500">{c.field}: </span>
+                    <span className="text-red-600 line-through">{c.before || '(空白)'}</span>
+                    <span className="text-stone-400"> → </span>
+                    <span className="text-emerald-700">{c.after || '(空白)'}</span>
+                  </p>
+                ))}
+              </div>
+            </div>
+          ))}
+          {listLength > LIST_LIMIT && <p className="px-3 py-2 text-[10px] text-stone-400">...另有 {listLength - LIST_LIMIT} 筆</p>}
+        </div>
+
+        <div className="flex gap-2">
+          <button onClick={onCancel} disabled={applying} className="flex-1 py-2 border border-stone-200 rounded-lg text-xs text-stone-600 hover:bg-stone-50">
+            取消
+          </button>
+          <button
+            disabled={!hasChanges || applying}
+            onClick={onApply}
+            className="flex-1 py-2 bg-stone-800 text-white rounded-lg text-xs font-bold hover:bg-stone-700 disabled:opacity-50"
+          >
+            {applying ? '套用中...' : hasChanges ? '套用變更' : '主檔已是最新'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MasterDiffPreview;
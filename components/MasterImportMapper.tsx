@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Columns, AlertTriangle, X } from 'lucide-react';
+import { ColumnMapping, MASTER_FIELDS, MasterField, MasterImportMode, detectHeaderRow, suggestMapping, missingRequiredFields, mapMasterRow } from '../utils/masterImport';
+
+interface MasterImportMapperProps {
+  fileName: string;
+  rows: string[][]; // Leading rows of the file, already split into cells
+  delimiter?: string; // CSV delimiter the rows were split on
+  onConfirm: (headerRow: number, mapping: ColumnMapping, mode: MasterImportMode) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+const MasterImportMapper: React.FC<MasterImportMapperProps> = ({ fileName, rows, delimiter, onConfirm, onCancel }) => {
+  const [headerRow, setHeaderRow] = useState(() => detectHeaderRow(rows));
+  const [mapping, setMapping] = useState<ColumnMapping>(() => suggestMapping(rows[headerRow] || []).mapping);
+  const [remembered, setRemembered] = useState(() => suggestMapping(rows[headerRow] || []).remembered);
+  const [mode, setMode] = useState<MasterImportMode>('sync');
+
+  const header = rows[headerRow] || [];
+  const missing = missingRequiredFields(mapping);
+  const previewItems = rows.slice(headerRow + 1)
+    .filter(cols => cols.some(c => c))
+    .slice(0, PREVIEW_ROWS)
+    .map(cols => mapMasterRow(cols, mapping, header.length, delimiter));
+  const mappedFields = MASTER_FIELDS.filter(f => mapping[f.field] !== undefined);
+
+  const changeHeaderRow = (index: number) => {
+    const suggestion = suggestMapping(rows[index] || []);
+    setHeaderRow(index);
+    setMapping(suggestion.mapping);
+    setRemembered(suggestion.remembered);
+  };
+
+  const changeField = (field: MasterField, value: string) => {
+    const next = { ...mapping };
+    if (value === '') delete next[field];
+    else next[field] = Number(value);
+    setMapping(next);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-stone-900/60 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex justify-between items-center mb-1">
+          <h3 className="text-base font-bold text-stone-800 flex items-center gap-2">
+            <Columns size={18} className="text-stone-600" />
+            欄位對應
+          </h3>
+          <button onClick={onCancel} className="text-stone-400 hover:text-stone-700"><X size={18} /></button>
+        </div>
+        <p className="text-[10px] text-stone-400 mb-4 truncate">
+          {fileName}{remembered && ' • 已套用上次儲存的對應'}
+        </p>
+
+        <label className="flex items-center gap-2 text-xs text-stone-600 mb-4">
+          標題列
+          <select
+            value={headerRow}
+            onChange={e => changeHeaderRow(Number(e.target.value))}
+            className="flex-1 min-w-0 px-2 py-1.5 bg-stone-50 border border-stone-200 rounded-lg text-xs focus:outline-none"
+          >
+            {rows.slice(0, 10).map((r, i) => (
+              <option key={i} value={i}>第 {i + 1} 列：{r.slice(0, 4).join(', ')}</option>
+            ))}
+          </select>
+        </label>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mb-4">
+          {MASTER_FIELDS.map(f => (
+            <label key={f.field} className="flex items-center gap-2 text-xs">
+              <span className={`w-32 shrink-0 ${f.required ? 'font-bold text-stone-800' : 'text-stone-600'}`}>
+                {f.label}{f.required && ' *'}
+              </span>
+              <select
+                value={mapping[f.field] ?? ''}
+                onChange={e => changeField(f.field, e.target.value)}
+                className={`flex-1 min-w-0 px-2 py-1 bg-stone-50 border rounded-lg text-xs focus:outline-none ${f.required && mapping[f.field] === undefined ? 'border-red-300' : 'border-stone-200'}`}
+              >
+                <option value="">— 不匯入 —</option>
+                {header.map((h, i) => <option key={i} value={i}>{h || `(第 ${i + 1} 欄)`}</option>)}
+              </select>
+            </label>
+          ))}
+        </div>
+
+        <div className="text-[10px] text-stone-400 mb-1">預覽（前 {PREVIEW_ROWS} 筆）</div>
+        <div className="overflow-x-auto border border-stone-100 rounded-lg mb-4">
+          <table className="text-[10px] text-stone-600 w-full">
+            <thead className="bg-stone-50 text-stone-500">
+              <tr>{mappedFields.map(f => <th key={f.field} className="px-2 py-1 text-left whitespace-nowrap">{f.field}</th>)}</tr>
+            </thead>
+            <tbody className="divide-y divide-stone-100">
+              {previewItems.map((item, i) => (
+                <tr key={i}>
+                  {mappedFields.map(f => <td key={f.field} className="px-2 py-1 whitespace-nowrap max-w-[12rem] truncate">{String(item[f.field] ?? '')}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 mb-4">
+          {([['sync', '差異同步', '預覽新增/移除/變更後套用'], ['replace', '全部取代', '清空主檔後重新匯入']] as const).map(([key, label, hint]) => (
+            <button
+              key={key}
+              onClick={() => setMode(key)}
+              className={`py-2 px-3 rounded-lg border text-left transition-colors ${mode === key ? 'border-stone-800 bg-stone-50' : 'border-stone-200 hover:bg-stone-50'}`}
+            >
+              <span className="block text-xs font-bold text-stone-700">{label}</span>
+              <span className="text-[10px] text-stone-400">{hint}</span>
+            </button>
+          ))}
+        </div>
+
+        {missing.length > 0 && (
+          <p className="flex items-center gap-1 text-red-500 text-xs mb-3">
+            <AlertTriangle size={14} /> 缺少必要欄位：{missing.map(f => f.field).join(', ')}
+          </p>
+        )}
+
+        <div className="flex gap-2">
+          <button onClick={onCancel} className="flex-1 py-2 border border-stone-200 rounded-lg text-xs text-stone-600 hover:bg-stone-50">
+            取消
+          </button>
+          <button
+            disabled={missing.length > 0}
+            onClick={() => onConfirm(headerRow, mapping, mode)}
+            className="flex-1 py-2 bg-stone-800 text-white rounded-lg text-xs font-bold hover:bg-stone-700 disabled:opacity-50"
+          >
+            {mode === 'sync' ? '比對差異' : '開始匯入'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MasterImportMapper;
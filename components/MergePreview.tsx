@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { FilePlus, X } from 'lucide-react';
+import { MergeChoice, MergeRow, MergeRule, MERGE_RULE_LABELS, resolveByRule } from '../utils/merge';
+
+interface MergePreviewProps {
+  fileName: string;
+  rows: MergeRow[];
+  invalidCount: number;
+  applying: boolean;
+  onApply: (choices: Map<string, MergeChoice>, rule: MergeRule) => void;
+  onCancel: () => void;
+}
+
+type MergeTab = 'new' | 'identical' | 'conflict';
+
+const LIST_LIMIT = 100;
+
+const formatDate = (ts: number) => new Date(ts).toLocaleString('zh-TW', { hour12: false });
+
+const MergePreview: React.FC<MergePreviewProps> = ({ fileName, rows, invalidCount, applying, onApply, onCancel }) => {
+  const conflicts = rows.filter(r => r.kind === 'conflict');
+  const [tab, setTab] = useState<MergeTab>(conflicts.length > 0 ? 'conflict' : 'new');
+  const [rule, setRule] = useState<MergeRule>('newest');
+  // Row-level overrides on top of the rule, keyed by PartID
+  const [overrides, setOverrides] = useState<Map<string, MergeChoice>>(new Map());
+
+  const choiceFor = (row: MergeRow) => overrides.get(row.incoming.PartID) ?? resolveByRule(row, rule);
+
+  const setChoice = (row: MergeRow, choice: MergeChoice) => {
+    const next = new Map(overrides);
+    next.set(row.incoming.PartID, choice);
+    setOverrides(next);
+  };
+
+  const changeRule = (next: MergeRule) => {
+    setRule(next);
+    setOverrides(new Map());
+  };
+
+  const handleApply = () => {
+    const choices = new Map<string, MergeChoice>();
+    conflicts.forEach(row => choices.set(row.incoming.PartID, choiceFor(row)));
+    onApply(choices, rule);
+  };
+
+  const tabs: { key: MergeTab, label: string, color: string }[] = [
+    { key: 'new', label: '新增', color: 'text-emerald-700' },
+    { key: 'identical', label: '相同', color: 'text-stone-500' },
+    { key: 'conflict', label: '衝突', color: 'text-amber-700' }
+  ];
+  const visible = rows.filter(r => r.kind === tab);
+
+  const side = (row: MergeRow, choice: MergeChoice) => {
+    const r = choice === 'incoming' ? row.incoming : row.existing!;
+    const selected = choiceFor(row) === choice;
+    return (
+      <button
+        onClick={() => setChoice(row, choice)}
+        className={`flex-1 text-left p-2 rounded-lg border text-[10px] transition-colors ${selected ? 'border-stone-800 bg-stone-50' : 'border-stone-200 opacity-60 hover:opacity-100'}`}
+      >
+        <span className="block text-stone-400 mb-0.5">{choice === 'incoming' ? '匯入檔案' : '目前紀錄'}</span>
+        <span className={`block font-bold ${row.conflicts.includes('Status') ? 'text-amber-700' : 'text-stone-700'}`}>{r.Status}</span>
+        <span className={`block ${row.conflicts.includes('scannedBy') ? 'text-amber-700' : 'text-stone-500'}`}>{r.scannedBy}</span>
+        <span className={`block font-mono ${row.conflicts.includes('InventoryDate') ? 'text-amber-700' : 'text-stone-400'}`}>{formatDate(r.InventoryDate)}</span>
+      </button>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-stone-900/60 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col p-6">
+        <div className="flex justify-between items-center mb-1">
+          <h3 className="text-base font-bold text-stone-800 flex items-center gap-2">
+            <FilePlus size={18} className="text-stone-600" />
+            合併預覽
+          </h3>
+          <button onClick={onCancel} disabled={applying} className="text-stone-400 hover:text-stone-700"><X size={18} /></button>
+        </div>
+        <p className="text-[10px] text-stone-400 mb-4 truncate">
+          {fileName}{invalidCount > 0 && ` • ${invalidCount} 列格式錯誤已略過`}
+        </p>
+
+        <div className="grid grid-cols-3 gap-2 mb-3">
+          {tabs.map(t => (
+            <button
+              key={t.key}
+              onClick={() => setTab(t.key)}
+              className={`py-2 rounded-lg border text-xs transition-colors ${tab === t.key ? 'border-stone-800 bg-stone-50' : 'border-stone-200 hover:bg-stone-50'}`}
+            >
+              <span className={`block font-mono font-bold text-base ${t.color}`}>{rows.filter(r => r.kind === t.key).length}</span>
+              <span className="text-stone-500">{t.label}</span>
+            </button>
+          ))}
+        </div>
+
+        {conflicts.length > 0 && (
+          <div className="flex items-center gap-2 mb-3 text-xs text-stone-600">
+            衝突處理
+            <div className="flex p-0.5 bg-stone-100 rounded-full border border-stone-200">
+              {(Object.keys(MERGE_RULE_LABELS) as MergeRule[]).map(r => (
+                <button
+                  key={r}
+                  onClick={() => changeRule(r)}
+                  className={`text-[10px] px-2 py-0.5 rounded-full transition-colors ${rule === r ? 'bg-stone-800 text-white font-bold' : 'text-stone-500 hover:text-stone-700'}`}
+                >
+                  {MERGE_RULE_LABELS[r]}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex-1 min-h-0 overflow-y-auto border border-stone-100 rounded-lg divide-y divide-stone-100 mb-4">
+          {visible.length === 0 && <p className="text-xs text-stone-300 py-4 text-center">無資料</p>}
+          {visible.slice(0, LIST_LIMIT).map(row => (
+            <div key={row.incoming.PartID} className="px-3 py-2 text-xs">
+              <div className="flex justify-between items-center">
+                <span className="font-mono font-bold text-stone-700">{row.incoming.PartID}</span>
+                {tab !== 'conflict' && (
+                  <span className="text-[10px] text-stone-400">{row.incoming.Status} • {row.incoming.scannedBy}</span>
+                )}
+              </div>
+              {tab === 'conflict' && (
+                <div className="flex gap-2 mt-1">
+                  {side(row, 'existing')}
+                  {side(row, 'incoming')}
+                </div>
+              )}
+            </div>
+          ))}
+          {visible.length > LIST_LIMIT && <p className="px-3 py-2 text-[10px] text-stone-400">...另有 {visible.length - LIST_LIMIT} 筆</p>}
+        </div>
+
+        <div className="flex gap-2">
+          <button onClick={onCancel} disabled={applying} className="flex-1 py-2 border border-stone-200 rounded-lg text-xs text-stone-600 hover:bg-stone-50">
+            取消
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={applying}
+            className="flex-1 py-2 bg-stone-800 text-white rounded-lg text-xs font-bold hover:bg-stone-700 disabled:opacity-50"
+          >
+            {applying ? '合併中...' : '確認合併'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MergePreview;
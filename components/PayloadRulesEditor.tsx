@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { ScanText, ArrowUp, ArrowDown, Trash2, Plus, RotateCcw, FlaskConical } from 'lucide-react';
+import { PayloadRule, PayloadRuleType } from '../types';
+import { PAYLOAD_RULE_TYPE_LABELS, DEFAULT_PAYLOAD_RULES, loadPayloadRules, savePayloadRules, resetPayloadRules, parsePayload, validatePayloadRule } from '../utils/payload';
+
+const FIELD_LABELS: { key: 'part' | 'serial' | 'qty', label: string }[] = [
+  { key: 'part', label: 'PartID' },
+  { key: 'serial', label: '廠商序號' },
+  { key: 'qty', label: '數量' }
+];
+
+const FIELD_PLACEHOLDERS: Record<PayloadRuleType, string> = {
+  gs1: 'AI，例如 240, 01',
+  regex: '以第一個括號擷取，例如 ^P(.+)$'
+};
+
+// GS1 labels separate variable-length fields with the GS control character, which can't be typed;
+// the sample box accepts "<GS>" in its place
+const GS_TOKEN = /<GS>/gi;
+
+const PayloadRulesEditor: React.FC = () => {
+  const [rules, setRules] = useState<PayloadRule[]>(loadPayloadRules);
+  const [sample, setSample] = useState('');
+
+  // Every edit is saved at once; the scan view reads the rules on each scan
+  const update = (next: PayloadRule[]) => {
+    setRules(next);
+    savePayloadRules(next);
+  };
+
+  const patch = (index: number, changes: Partial<PayloadRule>) =>
+    update(rules.map((r, i) => i === index ? { ...r, ...changes } : r));
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    update(next);
+  };
+
+  const handleAdd = () => {
+    update([...rules, {
+      id: Math.random().toString(36).substr(2, 9),
+      name: '',
+      type: 'regex',
+      part: '',
+      serial: '',
+      qty: '',
+      enabled: true
+    }]);
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('確定要還原為預設解析規則嗎？')) return;
+    resetPayloadRules();
+    setRules(DEFAULT_PAYLOAD_RULES);
+  };
+
+  const parsed = sample.trim() ? parsePayload(sample.trim().replace(GS_TOKEN, '\u001d'), rules) : undefined;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-stone-100">
+      <div className="flex justify-between items-center mb-1">
+        <h3 className="text-base font-bold text-stone-800 flex items-center gap-2">
+          <ScanText size={18} className="text-stone-600" />
+          條碼解析規則
+        </h3>
+        <button onClick={handleReset} className="flex items-center gap-1 text-[10px] text-stone-500 hover:text-stone-800 border border-stone-200 rounded-lg px-2 py-1">
+          <RotateCcw size={12} /> 預設
+        </button>
+      </div>
+      <p className="text-[10px] text-stone-400 mb-4">條碼內容不是 PartID 時依序套用，取第一條解析出 PartID 或序號的規則；PartID 不在主檔時改以序號比對廠商序號，再依序比對廠商序號、客戶料號、廠商料號；多筆符合時由人員選擇。</p>
+
+      <div className="space-y-2">
+        {rules.map((rule, i) => {
+          const error = validatePayloadRule(rule);
+          return (
+            <div key={rule.id} className={`p-3 rounded-lg border text-xs ${rule.enabled ? 'border-stone-200' : 'border-stone-100 opacity-60'}`}>
+              <div className="flex items-center gap-2 mb-2">
+                <span className="font-mono text-[10px] text-stone-400 w-4">{i + 1}</span>
+                <input
+                  value={rule.name}
+                  onChange={(e) => patch(i, { name: e.target.value })}
+                  placeholder="規則名稱"
+                  className="flex-1 min-w-0 px-2 py-1 border border-stone-200 rounded-md text-stone-800 focus:outline-none focus:border-stone-400"
+                />
+                <select
+                  value={rule.type}
+                  onChange={(e) => patch(i, { type: e.target.value as PayloadRuleType })}
+                  className="px-2 py-1 border border-stone-200 rounded-md text-stone-700 bg-white focus:outline-none focus:border-stone-400"
+                >
+                  {(Object.keys(PAYLOAD_RULE_TYPE_LABELS) as PayloadRuleType[]).map(t => (
+                    <option key={t} value={t}>{PAYLOAD_RULE_TYPE_LABELS[t]}</option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-1 text-stone-600 shrink-0">
+                  <input type="checkbox" checked={rule.enabled} onChange={() => patch(i, { enabled: !rule.enabled })} />
+                  啟用
+                </label>
+                <div className="flex items-center gap-1">
+                  <button onClick={() => move(i, -1)} disabled={i === 0} className="p-1 text-stone-400 hover:text-stone-700 disabled:opacity-30" title="提高優先順序"><ArrowUp size={12} /></button>
+                  <button onClick={() => move(i, 1)} disabled={i === rules.length - 1} className="p-1 text-stone-400 hover:text-stone-700 disabled:opacity-30" title="降低優先順序"><ArrowDown size={12} /></button>
+                  <button onClick={() => update(rules.filter((_, j) => j !== i))} className="p-1 text-stone-400 hover:text-red-600" title="刪除規則"><Trash2 size={12} /></button>
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                {FIELD_LABELS.map(({ key, label }) => (
+                  <label key={key} className="flex items-center gap-2 text-[10px] text-stone-500">
+                    <span className="w-14 shrink-0">{label}</span>
+                    <input
+                      value={rule[key]}
+                      onChange={(e) => patch(i, { [key]: e.target.value })}
+                      placeholder={FIELD_PLACEHOLDERS[rule.type]}
+                      className="flex-1 min-w-0 px-2 py-1 border border-stone-200 rounded-md font-mono text-xs text-stone-800 focus:outline-none focus:border-stone-400"
+                    />
+                  </label>
+                ))}
+              </div>
+              {error && <p className="text-[10px] text-amber-600 mt-2">{error}</p>}
+            </div>
+          );
+        })}
+      </div>
+
+      <button onClick={handleAdd} className="mt-3 w-full py-2 flex items-center justify-center gap-1 text-xs text-stone-500 border border-dashed border-stone-300 rounded-lg hover:bg-stone-50">
+        <Plus size={14} /> 新增規則
+      </button>
+
+      <div className="mt-4 pt-4 border-t border-stone-100">
+        <label className="flex items-center gap-1 text-[10px] text-stone-500 mb-1">
+          <FlaskConical size={12} /> 測試條碼內容 (GS 分隔字元以 &lt;GS&gt; 輸入)
+        </label>
+        <input
+          value={sample}
+          onChange={(e) => setSample(e.target.value)}
+          placeholder="例如 (240)ABC-123(21)SN0001(30)5"
+          className="w-full px-2 py-1.5 border border-stone-200 rounded-md font-mono text-xs text-stone-800 focus:outline-none focus:border-stone-400"
+        />
+        {sample.trim() && (
+          parsed ? (
+            <div className="mt-2 grid grid-cols-3 gap-2 text-[10px]">
+              <div className="p-2 bg-stone-50 rounded-md"><p className="text-stone-400">PartID</p><p className="font-mono font-bold text-stone-800 break-all">{parsed.partId || '—'}</p></div>
+              <div className="p-2 bg-stone-50 rounded-md"><p className="text-stone-400">廠商序號</p><p className="font-mono font-bold text-stone-800 break-all">{parsed.serial || '—'}</p></div>
+              <div className="p-2 bg-stone-50 rounded-md"><p className="text-stone-400">數量</p><p className="font-mono font-bold text-stone-800">{parsed.quantity ?? '—'}</p></div>
+              <p className="col-span-3 text-stone-400">符合規則：{parsed.rule.name || `#${rules.indexOf(parsed.rule) + 1}`}</p>
+            </div>
+          ) : (
+            <p className="mt-2 text-[10px] text-stone-400">沒有規則符合，將以原始內容比對 PartID、廠商序號、客戶料號與廠商料號。</p>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PayloadRulesEditor;
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { Link2, ArrowUp, ArrowDown, Trash2, Plus, RotateCcw } from 'lucide-react';
+import { RelatedField, RelatedNormalization, RelatedRule } from '../types';
+import { RELATED_FIELD_LABELS, DEFAULT_RELATED_RULES, loadRelatedRules, saveRelatedRules, resetRelatedRules } from '../utils/related';
+
+const NORMALIZATION_LABELS: Record<keyof RelatedNormalization, string> = {
+  ignoreCase: '不分大小寫',
+  stripSpaces: '忽略空白',
+  stripDashes: '忽略 - . / _'
+};
+
+const RelatedRulesEditor: React.FC = () => {
+  const [rules, setRules] = useState<RelatedRule[]>(loadRelatedRules);
+
+  // Every edit is saved at once; the related list picks it up on the next scan
+  const update = (next: RelatedRule[]) => {
+    setRules(next);
+    saveRelatedRules(next);
+  };
+
+  const patch = (index: number, changes: Partial<RelatedRule>) =>
+    update(rules.map((r, i) => i === index ? { ...r, ...changes } : r));
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    update(next);
+  };
+
+  const toggleField = (index: number, field: RelatedField) => {
+    const fields = rules[index].fields;
+    patch(index, { fields: fields.includes(field) ? fields.filter(f => f !== field) : [...fields, field] });
+  };
+
+  const toggleNormalization = (index: number, key: keyof RelatedNormalization) => {
+    const n = rules[index].normalization;
+    patch(index, { normalization: { ...n, [key]: !n[key] } });
+  };
+
+  const handleAdd = () => {
+    update([...rules, {
+      id: Math.random().toString(36).substr(2, 9),
+      fields: [],
+      normalization: { ignoreCase: true, stripSpaces: false, stripDashes: false },
+      enabled: true
+    }]);
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('確定要還原為預設比對規則嗎？')) return;
+    resetRelatedRules();
+    setRules(DEFAULT_RELATED_RULES);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-stone-100">
+      <div className="flex justify-between items-center mb-1">
+        <h3 className="text-base font-bold text-stone-800 flex items-center gap-2">
+          <Link2 size={18} className="text-stone-600" />
+          相關庫存比對規則
+        </h3>
+        <button onClick={handleReset} className="flex items-center gap-1 text-[10px] text-stone-500 hover:text-stone-800 border border-stone-200 rounded-lg px-2 py-1">
+          <RotateCcw size={12} /> 預設
+        </button>
+      </div>
+      <p className="text-[10px] text-stone-400 mb-4">所選欄位全部相同即視為同款；依序比對，清單標示第一條符合的規則。</p>
+
+      <div className="space-y-2">
+        {rules.map((rule, i) => (
+          <div key={rule.id} className={`p-3 rounded-lg border text-xs ${rule.enabled ? 'border-stone-200' : 'border-stone-100 opacity-60'}`}>
+            <div className="flex items-center gap-2 mb-2">
+              <span className="font-mono text-[10px] text-stone-400 w-4">{i + 1}</span>
+              <label className="flex items-center gap-1 text-stone-600">
+                <input type="checkbox" checked={rule.enabled} onChange={() => patch(i, { enabled: !rule.enabled })} />
+                啟用
+              </label>
+              <div className="ml-auto flex items-center gap-1">
+                <button onClick={() => move(i, -1)} disabled={i === 0} className="p-1 text-stone-400 hover:text-stone-700 disabled:opacity-30" title="提高優先順序"><ArrowUp size={12} /></button>
+                <button onClick={() => move(i, 1)} disabled={i === rules.length - 1} className="p-1 text-stone-400 hover:text-stone-700 disabled:opacity-30" title="降低優先順序"><ArrowDown size={12} /></button>
+                <button onClick={() => update(rules.filter((_, j) => j !== i))} className="p-1 text-stone-400 hover:text-red-600" title="刪除規則"><Trash2 size={12} /></button>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-1 mb-2">
+              {(Object.keys(RELATED_FIELD_LABELS) as RelatedField[]).map(f => (
+                <button
+                  key={f}
+                  onClick={() => toggleField(i, f)}
+                  className={`text-[10px] px-2 py-0.5 rounded-full border transition-colors ${rule.fields.includes(f) ? 'bg-stone-800 border-stone-800 text-white font-bold' : 'border-stone-200 text-stone-500 hover:bg-stone-50'}`}
+                >
+                  {RELATED_FIELD_LABELS[f]}
+                </button>
+              ))}
+            </div>
+            {rule.fields.length === 0 && <p className="text-[10px] text-amber-600 mb-2">請至少選擇一個欄位</p>}
+
+            <div className="flex flex-wrap gap-3 text-[10px] text-stone-500">
+              {(Object.keys(NORMALIZATION_LABELS) as (keyof RelatedNormalization)[]).map(key => (
+                <label key={key} className="flex items-center gap-1">
+                  <input type="checkbox" checked={rule.normalization[key]} onChange={() => toggleNormalization(i, key)} />
+                  {NORMALIZATION_LABELS[key]}
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <button onClick={handleAdd} className="mt-3 w-full py-2 flex items-center justify-center gap-1 text-xs text-stone-500 border border-dashed border-stone-300 rounded-lg hover:bg-stone-50">
+        <Plus size={14} /> 新增規則
+      </button>
+    </div>
+  );
+};
+
+export default RelatedRulesEditor;
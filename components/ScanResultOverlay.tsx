@@ -1,6 +1,7 @@
 import React, { useEffect } from 'react';
-import { CheckCircle, XCircle, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { CheckCircle, XCircle, AlertTriangle, CheckCircle2, MapPinOff } from 'lucide-react';
 import { ScanStatus, InventoryRecord } from '../types';
+import { LOOKUP_FIELD_LABELS } from '../utils/payload';
 
 interface ScanResultOverlayProps {
   status: ScanStatus | 'IDLE';
@@ -46,6 +47,13 @@ const ScanResultOverlay: React.FC<ScanResultOverlayProps> = ({ status, record, v
       message = "此條碼已掃描過";
       textColor = "text-white";
       break;
+    case 'Misplaced':
+      bgColor = "bg-violet-500/95";
+      icon = <MapPinOff size={72} className="text-white drop-shadow-md" />;
+      title = "儲位不符";
+      message = record?.PartID || "";
+      textColor = "text-white";
+      break;
   }
 
   return (
@@ -64,6 +72,25 @@ const ScanResultOverlay: React.FC<ScanResultOverlayProps> = ({ status, record, v
              <p className={`text-lg font-bold opacity-95 ${textColor}`}>{message}</p>
           )}
 
+          {/* Book vs found location */}
+          {status === 'Misplaced' && record && (
+            <p className={`text-xs font-bold ${textColor} opacity-90 mt-1`}>
+              應在 {record.Location || '—'} • 實際 {record.FoundLocation || '—'}
+            </p>
+          )}
+
+          {/* Found by an identifier other than the PartID */}
+          {record?.MatchedBy && status !== 'Not Found' && (
+            <p className={`text-xs font-bold ${textColor} opacity-90 mt-1`}>
+              依{LOOKUP_FIELD_LABELS[record.MatchedBy]} {record[record.MatchedBy] || ''} 比對
+            </p>
+          )}
+
+          {/* Counted quantity for bulk parts */}
+          {record && (record.Quantity ?? 1) !== 1 && (
+            <p className={`text-sm font-bold ${textColor} opacity-90 mt-1`}>數量 ×{record.Quantity}</p>
+          )}
+
           {/* NEW: Class Field Display */}
           {record?.Class && status !== 'Not Found' && (
             <div className="mt-2">
@@ -6,9 +6,24 @@ interface ScannerInputProps {
   onScan: (decodedText: string) => void;
   isScanning: boolean;
   setIsScanning: (scanning: boolean) => void;
+  // Batch sweeping: every code in the frame is reported, each with its own cooldown
+  continuous?: boolean;
+  children?: React.ReactNode; // Drawn over the bottom of the camera view
 }
 
-const ScannerInput: React.FC<ScannerInputProps> = ({ onScan, isScanning, setIsScanning }) => {
+// The browser's native detector (Chromium/Android) returns every code in a frame;
+// html5-qrcode only ever reports the first one
+interface DetectedBarcode { rawValue: string }
+interface BarcodeDetectorLike { detect(source: CanvasImageSource): Promise<DetectedBarcode[]> }
+interface BarcodeDetectorConstructor {
+  new (options: { formats: string[] }): BarcodeDetectorLike;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+const MULTI_FORMATS = ['qr_code', 'code_128', 'code_39', 'ean_13', 'upc_a'];
+const MULTI_DETECT_MS = 200;
+
+const ScannerInput: React.FC<ScannerInputProps> = ({ onScan, isScanning, setIsScanning, continuous = false, children }) => {
   const scannerRegionId = 'html5qr-code-full-region';
   const html5QrCodeRef = useRef<Html5Qrcode | null>(null);
   const [torchOn, setTorchOn] = useState(false);
@@ -18,6 +33,8 @@ const ScannerInput: React.FC<ScannerInputProps> = ({ onScan, isScanning, setIsSc
   
   const lastScannedCodeRef = useRef<string | null>(null);
   const lastScannedTimeRef = useRef<number>(0);
+  const recentCodesRef = useRef(new Map<string, number>());
+  const multiTimerRef = useRef<number | null>(null);
   const COOLDOWN_MS = 1000; 
 
   const onScanRef = useRef(onScan);
@@ -25,6 +42,61 @@ const ScannerInput: React.FC<ScannerInputProps> = ({ onScan, isScanning, setIsSc
     onScanRef.current = onScan;
   }, [onScan]);
 
+  const continuousRef = useRef(continuous);
+  useEffect(() => {
+    continuousRef.current = continuous;
+  }, [continuous]);
+
+  // Single mode holds back a repeat of the last code; continuous mode holds back each code separately
+  const emitCode = (decodedText: string) => {
+    if (!isMountedRef.current) return;
+    const now = Date.now();
+    if (continuousRef.current) {
+      const last = recentCodesRef.current.get(decodedText);
+      if (last !== undefined && now - last < COOLDOWN_MS) return;
+      recentCodesRef.current.set(decodedText, now);
+    } else {
+      if (decodedText === lastScannedCodeRef.current && (now - lastScannedTimeRef.current < COOLDOWN_MS)) {
+         return;
+      }
+      lastScannedCodeRef.current = decodedText;
+      lastScannedTimeRef.current = now;
+    }
+    onScanRef.current(decodedText);
+  };
+
+  const stopMultiDetect = () => {
+    if (multiTimerRef.current !== null) {
+      clearInterval(multiTimerRef.current);
+      multiTimerRef.current = null;
+    }
+  };
+
+  // Runs next to html5-qrcode on the same video element, so each frame can yield several codes
+  const startMultiDetect = async () => {
+    stopMultiDetect();
+    const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+    if (!Detector) return;
+    try {
+      const supported = await Detector.getSupportedFormats();
+      const formats = MULTI_FORMATS.filter(f => supported.includes(f));
+      if (formats.length === 0 || !isMountedRef.current) return;
+      const detector = new Detector({ formats });
+      let busy = false;
+      multiTimerRef.current = window.setInterval(async () => {
+        const video = document.querySelector<HTMLVideoElement>(`#${scannerRegionId} video`);
+        if (busy || !video || video.readyState < 2) return;
+        busy = true;
+        try {
+          (await detector.detect(video)).forEach(code => emitCode(code.rawValue));
+        } catch (e) { /* frame not ready */ }
+        busy = false;
+      }, MULTI_DETECT_MS);
+    } catch (e) {
+      console.error('BarcodeDetector unavailable', e);
+    }
+  };
+
   const isMountedRef = useRef(true);
   const requestIdRef = useRef(0);
 
@@ -32,6 +104,7 @@ const ScannerInput: React.FC<ScannerInputProps> = ({ onScan, isScanning, setIsSc
     isMountedRef.current = true;
     return () => {
       isMountedRef.current = false;
+      stopMultiDetect();
       if (html5QrCodeRef.current) {
         try { html5QrCodeRef.current.stop(); } catch(e) {}
         try { html5QrCodeRef.current.clear(); } catch(e) {}
@@ -93,20 +166,15 @@ const ScannerInput: React.FC<ScannerInputProps> = ({ onScan, isScanning, setIsSc
       await qrCode.start(
         cameraIdOrConfig as any,
         config,
-        (decodedText) => {
-           if (isMountedRef.current) {
-             const now = Date.now();
-             if (decodedText === lastScannedCodeRef.current && (now - lastScannedTimeRef.current < COOLDOWN_MS)) {
-                return;
-             }
-             lastScannedCodeRef.current = decodedText;
-             lastScannedTimeRef.current = now;
-             onScanRef.current(decodedText);
-           }
-        },
+        (decodedText) => emitCode(decodedText),
         () => {}
       );
 
+      if (continuousRef.current) {
+        recentCodesRef.current.clear();
+        startMultiDetect();
+      }
+
       if (isMountedRef.current) {
          try {
              // @ts-ignore
@@ -142,6 +210,7 @@ const ScannerInput: React.FC<ScannerInputProps> = ({ onScan, isScanning, setIsSc
       requestIdRef.current++;
       startScannerOperation(requestIdRef.current);
     } else {
+      stopMultiDetect();
       const stop = async () => {
           if (html5QrCodeRef.current) {
               try {
@@ -219,11 +288,15 @@ const ScannerInput: React.FC<ScannerInputProps> = ({ onScan, isScanning, setIsSc
             </div>
         )}
         
-        <div className="absolute bottom-12 left-0 right-0 text-center z-20">
-            <p className="text-stone-300 text-sm font-medium tracking-wide bg-black/30 py-1 backdrop-blur-sm">
-                請將條碼對準框框中心
-            </p>
-        </div>
+        {children ? (
+          <div className="absolute bottom-0 left-0 right-0 z-20">{children}</div>
+        ) : (
+          <div className="absolute bottom-12 left-0 right-0 text-center z-20">
+              <p className="text-stone-300 text-sm font-medium tracking-wide bg-black/30 py-1 backdrop-blur-sm">
+                  請將條碼對準框框中心
+              </p>
+          </div>
+        )}
       </div>
       
       {cameraError && (
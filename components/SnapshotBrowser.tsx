@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { History, RotateCcw, Camera, Loader2 } from 'lucide-react';
+import { Snapshot, SnapshotReason, UserAccount } from '../types';
+import { db, SNAPSHOT_EVERY_SCANS } from '../utils/db';
+
+interface SnapshotBrowserProps {
+  currentAccount: UserAccount;
+}
+
+const REASON_LABELS: Record<SnapshotReason, string> = {
+  scans: `每 ${SNAPSHOT_EVERY_SCANS} 次掃描`,
+  manual: '手動建立',
+  delete: '刪除紀錄前',
+  clear: '清空紀錄前',
+  merge: '合併 CSV 前',
+  restore: '還原前',
+  user_delete: '刪除帳號前'
+};
+
+const SnapshotBrowser: React.FC<SnapshotBrowserProps> = ({ currentAccount }) => {
+  const snapshots = useLiveQuery(() => db.getSnapshots(), [], [] as Snapshot[]);
+  const [busy, setBusy] = useState(false);
+
+  const handleTake = async () => {
+    setBusy(true);
+    try {
+      await db.takeSnapshot('manual', currentAccount.name);
+    } catch (e: any) {
+      alert(`建立快照失敗：${e.message}`);
+    }
+    setBusy(false);
+  };
+
+  const handleRestore = async (snapshot: Snapshot) => {
+    const when = new Date(snapshot.createdAt).toLocaleString('zh-TW', { hour12: false });
+    if (!window.confirm(`確定要還原到 ${when} 的快照嗎？\n目前的場次、盤點紀錄與帳號將被取代 (主檔不受影響)。\n還原前會先自動建立一份快照。`)) return;
+
+    setBusy(true);
+    try {
+      await db.restoreSnapshot(snapshot.id!, currentAccount.name);
+      alert('快照還原完成，頁面將重新載入以套用設定。');
+      window.location.reload();
+    } catch (e: any) {
+      alert(`還原失敗：${e.message}`);
+    }
+    setBusy(false);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-stone-100">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-base font-bold text-stone-800 flex items-center gap-2">
+          <History size={18} className="text-stone-600" />
+          自動快照
+        </h3>
+        <button onClick={handleTake} disabled={busy} className="flex items-center gap-1 text-[10px] text-stone-500 hover:text-stone-800 border border-stone-200 rounded-lg px-2 py-1 disabled:opacity-50">
+          {busy ? <Loader2 size={12} className="animate-spin" /> : <Camera size={12} />} 立即建立
+        </button>
+      </div>
+
+      {snapshots.length === 0 ? (
+        <p className="text-xs text-stone-300 py-2 text-center">尚無快照</p>
+      ) : (
+        <div className="divide-y divide-stone-100 border border-stone-100 rounded-lg">
+          {snapshots.map(s => (
+            <div key={s.id} className="px-3 py-2 flex items-center gap-2 text-xs">
+              <div className="flex-1 min-w-0">
+                <p className="font-bold text-stone-700">
+                  {new Date(s.createdAt).toLocaleString('zh-TW', { hour12: false })}
+                  <span className="ml-2 font-normal text-[10px] text-stone-400">{REASON_LABELS[s.reason]}{s.actor && ` • ${s.actor}`}</span>
+                </p>
+                <p className="text-[10px] text-stone-500 font-mono">
+                  {s.counts.records} 紀錄 • {s.counts.sessions} 場次 • {s.counts.users} 帳號
+                </p>
+              </div>
+              <button onClick={() => handleRestore(s)} disabled={busy} className="p-1.5 text-stone-400 hover:text-amber-600 disabled:opacity-50" title="還原此快照">
+                <RotateCcw size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SnapshotBrowser;
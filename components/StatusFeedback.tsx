@@ -1,5 +1,5 @@
 import React from 'react';
-import { CheckCircle2, XCircle, AlertTriangle, ScanLine, CheckCircle, ArrowRight } from 'lucide-react';
+import { CheckCircle2, XCircle, AlertTriangle, ScanLine, CheckCircle, ArrowRight, MapPinOff } from 'lucide-react';
 import { ScanStatus, InventoryRecord } from '../types';
 
 interface StatusFeedbackProps {
@@ -49,6 +49,14 @@ const StatusFeedback: React.FC<StatusFeedbackProps> = ({ status, lastRecord, onV
       title = "重複盤點";
       message = "此條碼已盤點過";
       break;
+    case 'Misplaced':
+      bgColor = "bg-violet-50";
+      borderColor = "border-violet-200";
+      textColor = "text-violet-900";
+      icon = <MapPinOff size={32} className="text-violet-600" />;
+      title = "儲位不符";
+      message = `應在 ${lastRecord?.Location || '—'}，實際 ${lastRecord?.FoundLocation || '—'}`;
+      break;
     case 'IDLE':
     default:
       break;
@@ -64,6 +72,7 @@ const StatusFeedback: React.FC<StatusFeedbackProps> = ({ status, lastRecord, onV
            <h2 className={`text-base font-bold ${textColor} tracking-tight leading-tight`}>{title}</h2>
            {status !== 'IDLE' && lastRecord && (
              <span className="text-[10px] text-stone-400 font-mono">
+               {(lastRecord.Quantity ?? 1) !== 1 && <span className="mr-1 font-bold text-stone-600">×{lastRecord.Quantity}</span>}
                {new Date(lastRecord.InventoryDate).toLocaleTimeString()}
              </span>
            )}
@@ -71,7 +80,7 @@ const StatusFeedback: React.FC<StatusFeedbackProps> = ({ status, lastRecord, onV
         <p className={`text-sm font-medium opacity-90 ${textColor} truncate mt-0.5`}>{message}</p>
         
         <div className="flex justify-between items-end mt-1">
-            {lastRecord?.Project && (status === 'OK' || status === 'Checked') ? (
+            {lastRecord?.Project && (status === 'OK' || status === 'Checked' || status === 'Misplaced') ? (
                <div>
                  <span className="inline-block px-1.5 py-0.5 rounded text-[10px] bg-white/60 border border-black/5 font-mono text-stone-600">
                    {lastRecord.Project}
@@ -1,119 +1,136 @@
-import React, { useMemo, useState, useEffect } from 'react';
-import { InventoryRecord, MasterItem } from '../types';
-import { Filter, Target, BarChart2, Eye, X, MapPin, Search, Layers } from 'lucide-react';
+import React, { useMemo, useState, useEffect, useRef, useCallback } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { MasterItem, InventorySession, SyncState } from '../types';
+import { Filter, Target, BarChart2, Eye, X, MapPin, Search, Layers, Users, AlertTriangle } from 'lucide-react';
 import { db } from '../utils/db';
+import { categoryOptions } from '../utils/categories';
+import { ProgressCounts, ProgressKey, copyCounts, emptyCounts, isKeyInScope, tally } from '../utils/progress';
+import VirtualList from './VirtualList';
 
 interface StockStatusProps {
-  records: InventoryRecord[];
+  session?: InventorySession;
+  syncEnabled: boolean;
+  syncState: SyncState;
+  syncPending: number;
 }
 
-const CUSTOMER_CATEGORIES = ['ALL', 'A26', 'A31', 'C38', 'INT', 'OTHERS'] as const;
-type CustomerCategory = typeof CUSTOMER_CATEGORIES[number];
+type Breakdown = 'category' | 'class' | 'location';
 
-const StockStatus: React.FC<StockStatusProps> = ({ records }) => {
-  const [customerFilter, setCustomerFilter] = useState<CustomerCategory>('ALL');
-  
-  // Stats State
-  const [masterCounts, setMasterCounts] = useState<{
-    total: number;
-    byCustomer: Record<string, number>;
-  }>({ total: 0, byCustomer: {} });
-  
-  // Unscanned Browser State
-  const [showUnscanned, setShowUnscanned] = useState(false);
-  const [allUnscanned, setAllUnscanned] = useState<MasterItem[]>([]);
-  const [loadingUnscanned, setLoadingUnscanned] = useState(false);
-  const [unscannedSearchTerm, setUnscannedSearchTerm] = useState('');
-  
-  // Class Filter State
-  const [classFilter, setClassFilter] = useState<string>('ALL');
+const BREAKDOWN_LABELS: Record<Breakdown, string> = {
+  category: '專案',
+  class: '類別',
+  location: '儲位'
+};
 
-  useEffect(() => {
-    const fetchMasterStats = async () => {
-      const allItems = await db.getAll();
-      const counts: Record<string, number> = {
-        'A26': 0, 'A31': 0, 'C38': 0, 'INT': 0, 'OTHERS': 0
-      };
-      
-      let total = 0;
-      allItems.forEach(item => {
-        total++;
-        // Categorize logic based on PartID prefix
-        const partId = (item.PartID || '').trim().toUpperCase();
-        
-        if (partId.startsWith('A26')) counts['A26']++;
-        else if (partId.startsWith('A31')) counts['A31']++;
-        else if (partId.startsWith('C38')) counts['C38']++;
-        else if (partId.startsWith('INT')) counts['INT']++;
-        else counts['OTHERS']++;
-      });
-      setMasterCounts({ total, byCustomer: counts });
-    };
-    fetchMasterStats();
-  }, []); 
+// Fixed card height (including the gap below it) for the virtualised unscanned list
+const UNSCANNED_ROW_HEIGHT = 124;
 
-  const scannedStats = useMemo(() => {
-    const counts: Record<string, number> = {
-      'A26': 0, 'A31': 0, 'C38': 0, 'INT': 0, 'OTHERS': 0
-    };
-    let totalScanned = 0;
-
-    records.forEach(r => {
-      // Checked items also count as completed
-      if (r.Status === 'OK' || r.Status === 'Checked') {
-        totalScanned++;
-        const partId = (r.PartID || '').trim().toUpperCase();
-        
-        if (partId.startsWith('A26')) counts['A26']++;
-        else if (partId.startsWith('A31')) counts['A31']++;
-        else if (partId.startsWith('C38')) counts['C38']++;
-        else if (partId.startsWith('INT')) counts['INT']++;
-        else counts['OTHERS']++;
-      }
+const StockStatus: React.FC<StockStatusProps> = ({ session, syncEnabled, syncState, syncPending }) => {
+  const sessionId = session?.id || '';
+
+  // 'ALL' or a category id
+  const [customerFilter, setCustomerFilter] = useState<string>('ALL');
+  const [breakdown, setBreakdown] = useState<Breakdown>('category');
+
+  const categories = useLiveQuery(() => db.getCategories(), [], []);
+  const options = useMemo(() => categoryOptions(categories), [categories]);
+  const categoryName = (id: string) => options.find(o => o.id === id)?.name || id;
+
+  // Category / Class / Location of every master item, straight from the progress index
+  const masterKeys = useLiveQuery(() => db.getMasterProgressKeys(), []);
+  const completed = useLiveQuery(() => db.getCompletedPartIds(sessionId), [sessionId]);
+  const duplicates = useLiveQuery(
+    () => syncEnabled ? db.getDuplicateScans(sessionId) : [],
+    [sessionId, syncEnabled],
+    [] as { partId: string, users: string[] }[]
+  );
+
+  const masterCounts = useMemo(() => {
+    const counts = emptyCounts();
+    masterKeys?.forEach(key => {
+      if (isKeyInScope(key, session)) tally(counts, key, 1);
     });
+    return counts;
+  }, [masterKeys, session]);
 
-    return { total: totalScanned, byCustomer: counts };
-  }, [records]);
+  // Each scan only adjusts the counters for the parts that changed since the last update;
+  // a new master, category table or session scope starts the tally over
+  const [scannedCounts, setScannedCounts] = useState<ProgressCounts>(emptyCounts);
+  const tracker = useRef<{ keys?: Map<string, ProgressKey>, session?: InventorySession, done: Set<string>, counts: ProgressCounts }>({
+    done: new Set(), counts: emptyCounts()
+  });
+
+  useEffect(() => {
+    if (!masterKeys || !completed) return;
+    const t = tracker.current;
+    if (t.keys !== masterKeys || t.session !== session) {
+      tracker.current = { keys: masterKeys, session, done: new Set(), counts: emptyCounts() };
+    }
+    const { done, counts } = tracker.current;
+    // Only in-scope master parts count toward progress
+    const apply = (partId: string, delta: number) => {
+      const key = masterKeys.get(partId);
+      if (key && isKeyInScope(key, session)) tally(counts, key, delta);
+    };
+    completed.forEach(id => { if (!done.has(id)) apply(id, 1); });
+    done.forEach(id => { if (!completed.has(id)) apply(id, -1); });
+    tracker.current.done = completed;
+    setScannedCounts(copyCounts(counts));
+  }, [masterKeys, completed, session]);
 
   const displayData = useMemo(() => {
     if (customerFilter === 'ALL') {
       return {
         target: masterCounts.total,
-        current: scannedStats.total,
+        current: scannedCounts.total,
         label: '總盤點進度'
       };
     } else {
       return {
-        target: masterCounts.byCustomer[customerFilter] || 0,
-        current: scannedStats.byCustomer[customerFilter] || 0,
-        label: `${customerFilter} 專案進度`
+        target: masterCounts.byCategory[customerFilter] || 0,
+        current: scannedCounts.byCategory[customerFilter] || 0,
+        label: `${categoryName(customerFilter)} 專案進度`
       };
     }
-  }, [customerFilter, masterCounts, scannedStats]);
+  }, [customerFilter, masterCounts, scannedCounts, options]);
 
   const progressPct = displayData.target > 0 
     ? Math.round((displayData.current / displayData.target) * 100) 
     : 0;
 
-  // Logic to fetch Unscanned Items (Fetch all, then filter in render)
+  // Rows of the detail card for the chosen breakdown
+  const breakdownRows = useMemo(() => {
+    if (breakdown === 'category') {
+      return options.map(o => ({ id: o.id, name: o.name, target: masterCounts.byCategory[o.id] || 0, current: scannedCounts.byCategory[o.id] || 0 }));
+    }
+    const target = breakdown === 'class' ? masterCounts.byClass : masterCounts.byLocation;
+    const current = breakdown === 'class' ? scannedCounts.byClass : scannedCounts.byLocation;
+    return Object.keys(target).sort().map(k => ({ id: k, name: k || '(空白)', target: target[k], current: current[k] || 0 }));
+  }, [breakdown, options, masterCounts, scannedCounts]);
+  
+  // Unscanned Browser State
+  const [showUnscanned, setShowUnscanned] = useState(false);
+  const [scannedIds, setScannedIds] = useState<Set<string> | null>(null);
+  const [unscannedSearchTerm, setUnscannedSearchTerm] = useState('');
+  const [searchMatches, setSearchMatches] = useState<Set<string> | null>(null);
+  const [loadedItems, setLoadedItems] = useState<Map<string, MasterItem>>(new Map());
+  
+  // Class Filter State
+  const [classFilter, setClassFilter] = useState<string>('ALL');
+
+  // The scanned set is taken once when the browser opens, so the list doesn't jump while counting
   const handleViewUnscanned = async () => {
     setShowUnscanned(true);
-    setLoadingUnscanned(true);
+    setScannedIds(null);
+    setLoadedItems(new Map());
     setUnscannedSearchTerm(''); // Reset search
     setClassFilter('ALL'); // Reset class filter
     
     try {
-        const scannedSet = new Set(records.map(r => r.PartID));
-        const allItems = await db.getAll();
-        
-        // Filter out scanned items only (ignore customer filter for now)
-        const unscanned = allItems.filter(item => !scannedSet.has(item.PartID));
-        setAllUnscanned(unscanned);
-
+        setScannedIds(await db.getScannedPartIds(sessionId));
     } catch (e) {
         console.error(e);
-    } finally {
-        setLoadingUnscanned(false);
+        setScannedIds(new Set());
     }
   };
 
@@ -124,56 +141,101 @@ const StockStatus: React.FC<StockStatusProps> = ({ records }) => {
       }
   }, [customerFilter, showUnscanned]);
 
-  // 1. First, filter by Customer (PartID Prefix)
+  // Description / VendorPN are not in the index, so a search term reads the items once (debounced)
+  useEffect(() => {
+    const term = unscannedSearchTerm.trim();
+    if (!showUnscanned || !term) {
+      setSearchMatches(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      db.filterMasterIds(term, customerFilter === 'ALL' ? undefined : customerFilter).then(ids => {
+        if (!cancelled) setSearchMatches(ids);
+      });
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [unscannedSearchTerm, customerFilter, showUnscanned]);
+
+  // 1. Unscanned, in-scope parts of the chosen category, from index keys only
   const unscannedByCustomer = useMemo(() => {
-     let filtered = allUnscanned;
-     if (customerFilter !== 'ALL') {
-        filtered = filtered.filter(item => {
-            const partId = (item.PartID || '').trim().toUpperCase();
-            if (customerFilter === 'OTHERS') {
-                const isSpecific = ['A26', 'A31', 'C38', 'INT'].some(k => partId.startsWith(k));
-                return !isSpecific;
-            } else {
-                return partId.startsWith(customerFilter);
-            }
-        });
-     }
-     return filtered;
-  }, [allUnscanned, customerFilter]);
+    const entries: { partId: string, key: ProgressKey }[] = [];
+    if (!showUnscanned || !scannedIds || !masterKeys) return entries;
+    masterKeys.forEach((key, partId) => {
+      if (scannedIds.has(partId) || !isKeyInScope(key, session)) return;
+      if (customerFilter !== 'ALL' && key[0] !== customerFilter) return;
+      entries.push({ partId, key });
+    });
+    return entries;
+  }, [showUnscanned, scannedIds, masterKeys, session, customerFilter]);
 
   // 2. Extract available classes based on current customer filter
   const availableClasses = useMemo(() => {
       const classes = new Set<string>();
-      unscannedByCustomer.forEach(item => {
-          if (item.Class) classes.add(item.Class);
+      unscannedByCustomer.forEach(({ key }) => {
+          if (key[1]) classes.add(key[1]);
       });
       return Array.from(classes).sort();
   }, [unscannedByCustomer]);
 
   // 3. Final filtered list (Customer -> Class -> Search)
-  const filteredUnscannedList = useMemo(() => {
-     let filtered = unscannedByCustomer;
-
-     // Filter by Class
-     if (classFilter !== 'ALL') {
-         filtered = filtered.filter(item => item.Class === classFilter);
-     }
-
-     // Filter by Search Term
-     if (unscannedSearchTerm.trim()) {
-         const term = unscannedSearchTerm.toLowerCase();
-         filtered = filtered.filter(item => 
-             item.PartID.toLowerCase().includes(term) || 
-             (item.Description || '').toLowerCase().includes(term) ||
-             (item.VendorPN || '').toLowerCase().includes(term)
-         );
-     }
-
-     return filtered;
-  }, [unscannedByCustomer, classFilter, unscannedSearchTerm]);
-
-  // Display only top 100 to prevent lag
-  const displayUnscanned = filteredUnscannedList.slice(0, 100);
+  const filteredUnscannedIds = useMemo(() => {
+     return unscannedByCustomer
+       .filter(({ partId, key }) =>
+         (classFilter === 'ALL' || key[1] === classFilter) &&
+         (!searchMatches || searchMatches.has(partId))
+       )
+       .map(({ partId }) => partId);
+  }, [unscannedByCustomer, classFilter, searchMatches]);
+
+  const searchPending = !!unscannedSearchTerm.trim() && !searchMatches;
+  const loadingUnscanned = !scannedIds || !masterKeys || searchPending;
+
+  // Rows are read from the master only as they scroll into view
+  const handleRangeChange = useCallback((start: number, end: number) => {
+    const missing = filteredUnscannedIds.slice(start, end).filter(id => !loadedItems.has(id));
+    if (missing.length === 0) return;
+    db.getMasterItems(missing).then(items => {
+      setLoadedItems(prev => {
+        const next = new Map(prev);
+        items.forEach(item => next.set(item.PartID, item));
+        return next;
+      });
+    });
+  }, [filteredUnscannedIds, loadedItems]);
+
+  const renderUnscannedRow = (index: number) => {
+    const item = loadedItems.get(filteredUnscannedIds[index]);
+    if (!item) {
+      return <div className="h-full pb-3"><div className="h-full bg-white rounded-xl border-l-4 border-stone-200 shadow-sm animate-pulse" /></div>;
+    }
+    return (
+      <div className="h-full pb-3">
+        <div className="h-full bg-white p-3 rounded-xl border-l-4 border-amber-500 shadow-sm hover:bg-amber-50 transition-colors overflow-hidden">
+           <div className="flex justify-between items-start mb-2">
+              <span className="font-mono font-bold text-stone-800 text-sm">{item.PartID}</span>
+              {/* Improved Location Visibility */}
+              <div className="flex items-center gap-1 bg-stone-800 text-amber-400 px-2 py-0.5 rounded-lg shadow-sm">
+                 <MapPin size={10} />
+                 <span className="text-[10px] font-bold">{item.Location || '無儲位'}</span>
+              </div>
+           </div>
+           <p className="text-[10px] text-stone-600 line-clamp-2 mb-2 leading-relaxed">{item.Description}</p>
+           <div className="flex flex-nowrap gap-2 text-[9px] text-stone-400 overflow-hidden">
+              <span className="bg-stone-100 px-1.5 py-0.5 rounded border border-stone-200">{item.Project}</span>
+              {item.Class && <span className="bg-stone-100 px-1.5 py-0.5 rounded border border-stone-200 font-medium text-stone-600">{item.Class}</span>}
+              <span className="bg-stone-100 px-1.5 py-0.5 rounded border border-stone-200">{item.Vendor}</span>
+              {item.VendorPN && item.VendorPN !== 'NA' && (
+                  <span className="bg-stone-100 px-1.5 py-0.5 rounded border border-stone-200 font-mono">{item.VendorPN}</span>
+              )}
+           </div>
+        </div>
+      </div>
+    );
+  };
 
   return (
     <div className="space-y-6 relative min-h-full">
@@ -200,10 +262,11 @@ const StockStatus: React.FC<StockStatusProps> = ({ records }) => {
                         <Filter size={12} className="text-stone-400" />
                         <select 
                            value={customerFilter}
-                           onChange={(e) => setCustomerFilter(e.target.value as CustomerCategory)}
+                           onChange={(e) => setCustomerFilter(e.target.value)}
                            className="bg-transparent border-none text-xs font-bold text-stone-700 focus:outline-none focus:ring-0 cursor-pointer py-1 pr-6"
                         >
-                          {CUSTOMER_CATEGORIES.map(c => <option key={c} value={c}>{c === 'ALL' ? '全部專案' : c}</option>)}
+                          <option value="ALL">全部專案</option>
+                          {options.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
                         </select>
                       </div>
 
@@ -222,7 +285,7 @@ const StockStatus: React.FC<StockStatusProps> = ({ records }) => {
                   </div>
                   
                   <span className="text-[10px] text-stone-400 font-mono whitespace-nowrap">
-                    {filteredUnscannedList.length} 筆
+                    {filteredUnscannedIds.length} 筆
                   </span>
               </div>
               
@@ -239,44 +302,21 @@ const StockStatus: React.FC<StockStatusProps> = ({ records }) => {
               </div>
            </div>
 
-           <div className="flex-1 overflow-y-auto p-4 space-y-3 no-scrollbar">
-              {loadingUnscanned ? (
-                 <div className="text-center py-10 text-stone-400 text-sm">讀取中...</div>
-              ) : displayUnscanned.length === 0 ? (
-                 <div className="text-center py-10 text-emerald-600 font-bold text-sm">
-                    {allUnscanned.length === 0 ? "恭喜！所有項目皆已盤點完畢。" : "查無符合項目。"}
-                 </div>
-              ) : (
-                 <>
-                   {displayUnscanned.map(item => (
-                      <div key={item.PartID} className="bg-white p-3 rounded-xl border-l-4 border-amber-500 shadow-sm hover:bg-amber-50 transition-colors">
-                         <div className="flex justify-between items-start mb-2">
-                            <span className="font-mono font-bold text-stone-800 text-sm">{item.PartID}</span>
-                            {/* Improved Location Visibility */}
-                            <div className="flex items-center gap-1 bg-stone-800 text-amber-400 px-2 py-0.5 rounded-lg shadow-sm">
-                               <MapPin size={10} />
-                               <span className="text-[10px] font-bold">{item.Location || '無儲位'}</span>
-                            </div>
-                         </div>
-                         <p className="text-[10px] text-stone-600 line-clamp-2 mb-2 leading-relaxed">{item.Description}</p>
-                         <div className="flex flex-wrap gap-2 text-[9px] text-stone-400">
-                            <span className="bg-stone-100 px-1.5 py-0.5 rounded border border-stone-200">{item.Project}</span>
-                            {item.Class && <span className="bg-stone-100 px-1.5 py-0.5 rounded border border-stone-200 font-medium text-stone-600">{item.Class}</span>}
-                            <span className="bg-stone-100 px-1.5 py-0.5 rounded border border-stone-200">{item.Vendor}</span>
-                            {item.VendorPN && item.VendorPN !== 'NA' && (
-                                <span className="bg-stone-100 px-1.5 py-0.5 rounded border border-stone-200 font-mono">{item.VendorPN}</span>
-                            )}
-                         </div>
-                      </div>
-                   ))}
-                   {filteredUnscannedList.length > 100 && (
-                     <div className="text-center text-[10px] text-stone-400 py-2">
-                       僅顯示前 100 筆，請使用篩選功能查看更多
-                     </div>
-                   )}
-                 </>
-              )}
-           </div>
+           {loadingUnscanned ? (
+              <div className="flex-1 text-center py-10 text-stone-400 text-sm">讀取中...</div>
+           ) : filteredUnscannedIds.length === 0 ? (
+              <div className="flex-1 text-center py-10 text-emerald-600 font-bold text-sm">
+                 {unscannedByCustomer.length === 0 ? "恭喜！所有項目皆已盤點完畢。" : "查無符合項目。"}
+              </div>
+           ) : (
+              <VirtualList
+                count={filteredUnscannedIds.length}
+                rowHeight={UNSCANNED_ROW_HEIGHT}
+                renderRow={renderUnscannedRow}
+                onRangeChange={handleRangeChange}
+                className="flex-1 p-4 no-scrollbar"
+              />
+           )}
         </div>
       )}
 
@@ -291,10 +331,11 @@ const StockStatus: React.FC<StockStatusProps> = ({ records }) => {
             <select 
               className="pl-8 pr-3 py-1.5 bg-stone-100 border-none rounded-lg text-xs text-stone-700 font-medium focus:outline-none focus:ring-2 focus:ring-stone-200"
               value={customerFilter}
-              onChange={(e) => setCustomerFilter(e.target.value as CustomerCategory)}
+              onChange={(e) => setCustomerFilter(e.target.value)}
             >
-              {CUSTOMER_CATEGORIES.map(c => (
-                <option key={c} value={c}>{c === 'ALL' ? '全部專案' : c}</option>
+              <option value="ALL">全部專案</option>
+              {options.map(c => (
+                <option key={c.id} value={c.id}>{c.name}</option>
               ))}
             </select>
         </div>
@@ -343,15 +384,62 @@ const StockStatus: React.FC<StockStatusProps> = ({ records }) => {
         </button>
       </div>
 
+      {syncEnabled && (
+        <div className="bg-white rounded-xl border border-stone-200 overflow-hidden">
+          <div className="bg-stone-50 px-4 py-3 border-b border-stone-200 flex justify-between items-center">
+            <span className="text-[10px] font-bold text-stone-500 uppercase tracking-wider flex items-center gap-1">
+              <Users size={12} /> 團隊同步
+            </span>
+            <span className={`text-[10px] font-medium ${syncState.online ? 'text-emerald-600' : 'text-stone-400'}`}>
+              {syncState.online ? '已連線' : '離線'}{syncPending > 0 && ` • 待上傳 ${syncPending}`}
+            </span>
+          </div>
+          <div className="divide-y divide-stone-100">
+            {syncState.devices.map(d => (
+              <div key={d.deviceId} className="px-4 py-2 flex justify-between items-center text-xs">
+                <span className="font-bold text-stone-700">{d.user || d.deviceId}</span>
+                <span className="text-[10px] text-stone-400 font-mono">
+                  {d.records} 筆 • {new Date(d.lastSeen).toLocaleTimeString('zh-TW', { hour12: false })}
+                </span>
+              </div>
+            ))}
+            {syncState.devices.length === 0 && (
+              <p className="px-4 py-3 text-[10px] text-stone-400">{syncState.error || '尚未與同步伺服器連線'}</p>
+            )}
+          </div>
+          {duplicates.length > 0 && (
+            <div className="px-4 py-3 bg-amber-50 border-t border-amber-100 space-y-1">
+              <p className="text-[10px] font-bold text-amber-700 flex items-center gap-1">
+                <AlertTriangle size={12} /> 跨人員重複盤點 {duplicates.length} 筆
+              </p>
+              {duplicates.slice(0, 10).map(d => (
+                <p key={d.partId} className="text-[10px] text-stone-600">
+                  <span className="font-mono font-bold">{d.partId}</span> — {d.users.join(', ')}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {customerFilter === 'ALL' && (
         <div className="bg-white rounded-xl border border-stone-200 overflow-hidden">
-          <div className="bg-stone-50 px-4 py-3 border-b border-stone-200 text-[10px] font-bold text-stone-500 uppercase tracking-wider">
-            各專案詳情
+          <div className="bg-stone-50 px-4 py-3 border-b border-stone-200 flex justify-between items-center">
+            <span className="text-[10px] font-bold text-stone-500 uppercase tracking-wider">各{BREAKDOWN_LABELS[breakdown]}詳情</span>
+            <div className="flex gap-1">
+              {(Object.keys(BREAKDOWN_LABELS) as Breakdown[]).map(b => (
+                <button
+                  key={b}
+                  onClick={() => setBreakdown(b)}
+                  className={`text-[10px] px-2 py-0.5 rounded-full border transition-colors ${breakdown === b ? 'bg-stone-800 border-stone-800 text-white font-bold' : 'border-stone-200 text-stone-500 hover:bg-white'}`}
+                >
+                  {BREAKDOWN_LABELS[b]}
+                </button>
+              ))}
+            </div>
           </div>
           <div className="divide-y divide-stone-100">
-            {CUSTOMER_CATEGORIES.filter(c => c !== 'ALL').map(cust => {
-              const target = masterCounts.byCustomer[cust] || 0;
-              const current = scannedStats.byCustomer[cust] || 0;
+            {breakdownRows.map(({ id: cust, name, target, current }) => {
               const pct = target > 0 ? Math.round((current / target) * 100) : 0;
               
               if (target === 0) return null; 
@@ -360,7 +448,7 @@ const StockStatus: React.FC<StockStatusProps> = ({ records }) => {
                 <div key={cust} className="p-4 flex items-center justify-between hover:bg-stone-50 transition-colors">
                   <div className="flex items-center gap-3">
                     <div className={`w-2 h-2 rounded-full ${pct >= 100 ? 'bg-emerald-500' : 'bg-amber-500'}`} />
-                    <span className="font-bold text-stone-700 text-xs">{cust}</span>
+                    <span className="font-bold text-stone-700 text-xs">{name}</span>
                   </div>
                   <div className="flex flex-col items-end gap-1">
                     <span className="text-[10px] text-stone-400 font-mono">
@@ -0,0 +1,50 @@
+import React from 'react';
+import { useRegisterSW } from 'virtual:pwa-register/react';
+import { RefreshCw, WifiOff, X } from 'lucide-react';
+
+// Phones stay on the counting screen for hours, so look for a new build now and then
+const UPDATE_CHECK_MS = 60 * 60 * 1000;
+
+const UpdatePrompt: React.FC = () => {
+  const {
+    needRefresh: [needRefresh, setNeedRefresh],
+    offlineReady: [offlineReady, setOfflineReady],
+    updateServiceWorker
+  } = useRegisterSW({
+    onRegisteredSW(_url, registration) {
+      if (!registration) return;
+      setInterval(() => {
+        if (navigator.onLine) registration.update();
+      }, UPDATE_CHECK_MS);
+    },
+    onRegisterError(error) {
+      console.error('Service worker registration failed', error);
+    }
+  });
+
+  if (!needRefresh && !offlineReady) return null;
+
+  const close = () => {
+    setNeedRefresh(false);
+    setOfflineReady(false);
+  };
+
+  return (
+    <div className="fixed bottom-20 inset-x-0 z-50 px-4 max-w-md mx-auto">
+      <div className="bg-stone-800 text-stone-50 rounded-xl shadow-lg p-3 flex items-center gap-3 text-xs">
+        {needRefresh ? <RefreshCw size={16} className="text-amber-400 shrink-0" /> : <WifiOff size={16} className="text-emerald-400 shrink-0" />}
+        <span className="flex-1">{needRefresh ? '有新版本可用，更新後將重新載入。' : '已可離線使用。'}</span>
+        {needRefresh && (
+          <button onClick={() => updateServiceWorker(true)} className="px-3 py-1.5 bg-amber-500 text-stone-900 font-bold rounded-lg hover:bg-amber-400">
+            更新
+          </button>
+        )}
+        <button onClick={close} className="p-1 text-stone-400 hover:text-stone-200" title="關閉">
+          <X size={14} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default UpdatePrompt;
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Users, UserPlus, X, KeyRound } from 'lucide-react';
+import { UserAccount, UserRole } from '../types';
+import { db } from '../utils/db';
+import { ROLE_LABELS, PIN_PATTERN, createAccount, generateSalt, hashPin } from '../utils/auth';
+
+interface UserManagementProps {
+  currentAccount: UserAccount;
+}
+
+const ROLES: UserRole[] = ['admin', 'counter', 'viewer'];
+
+const UserManagement: React.FC<UserManagementProps> = ({ currentAccount }) => {
+  const accounts = useLiveQuery(() => db.getUsers(), [], [] as UserAccount[]);
+  const [newUser, setNewUser] = useState('');
+  const [newRole, setNewRole] = useState<UserRole>('counter');
+  const [newPin, setNewPin] = useState('');
+  const [error, setError] = useState('');
+
+  const addUser = async () => {
+    const name = newUser.trim();
+    if (!name) return;
+    if (accounts.some(a => a.name === name)) return setError('此名稱已存在');
+    if (!PIN_PATTERN.test(newPin)) return setError('PIN 需為 4-8 位數字');
+
+    await db.putUser(await createAccount(name, newRole, newPin));
+    setNewUser('');
+    setNewPin('');
+    setError('');
+  };
+
+  const resetPin = async (account: UserAccount) => {
+    const pin = window.prompt(`請輸入 ${account.name} 的新 PIN (4-8 位數字)`);
+    if (pin === null) return;
+    if (!PIN_PATTERN.test(pin)) {
+      alert('PIN 需為 4-8 位數字');
+      return;
+    }
+    const salt = generateSalt();
+    await db.putUser({ ...account, salt, pinHash: await hashPin(pin, salt) });
+  };
+
+  const changeRole = async (account: UserAccount, role: UserRole) => {
+    if (account.name === currentAccount.name && role !== 'admin') {
+      alert('無法移除自己的管理員權限');
+      return;
+    }
+    await db.putUser({ ...account, role });
+  };
+
+  const removeUser = async (account: UserAccount) => {
+    if (account.name === currentAccount.name) {
+      alert('無法刪除目前登入的帳號');
+      return;
+    }
+    if (!window.confirm(`確定要刪除帳號「${account.name}」嗎？`)) return;
+    try {
+      await db.deleteUser(account.name, currentAccount.name);
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-stone-100">
+      <h3 className="text-base font-bold text-stone-800 mb-4 flex items-center gap-2">
+        <Users size={18} className="text-stone-600" />
+        人員管理
+      </h3>
+      <div className="flex gap-2 mb-2">
+        <input
+           value={newUser}
+           onChange={e => setNewUser(e.target.value)}
+           className="flex-1 min-w-0 px-3 py-2 bg-stone-50 border border-stone-200 rounded-lg text-xs focus:outline-none focus:border-stone-500"
+           placeholder="新增員工 ID..."
+        />
+        <select
+           value={newRole}
+           onChange={e => setNewRole(e.target.value as UserRole)}
+           className="px-2 py-2 bg-stone-50 border border-stone-200 rounded-lg text-xs focus:outline-none"
+        >
+          {ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+        </select>
+      </div>
+      <div className="flex gap-2 mb-4">
+        <input
+           type="password"
+           value={newPin}
+           onChange={e => setNewPin(e.target.value)}
+           inputMode="numeric"
+           maxLength={8}
+           className="flex-1 px-3 py-2 bg-stone-50 border border-stone-200 rounded-lg text-xs focus:outline-none focus:border-stone-500"
+           placeholder="PIN (4-8 位數字)"
+        />
+        <button onClick={addUser} className="p-2 bg-stone-800 text-white rounded-lg hover:bg-stone-700">
+          <UserPlus size={16} />
+        </button>
+      </div>
+      {error && <p className="text-red-500 text-[10px] mb-3">{error}</p>}
+
+      <div className="divide-y divide-stone-100 border border-stone-100 rounded-lg">
+        {accounts.map(a => (
+          <div key={a.name} className="px-3 py-2 flex items-center gap-2 text-xs text-stone-700">
+            <span className="flex-1 min-w-0 truncate font-bold">{a.name}</span>
+            {!a.pinHash && <span className="text-[10px] text-red-500 shrink-0">未設 PIN</span>}
+            <select
+              value={a.role}
+              onChange={e => changeRole(a, e.target.value as UserRole)}
+              className="bg-stone-50 border border-stone-200 rounded px-1 py-0.5 text-[10px] focus:outline-none"
+            >
+              {ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+            </select>
+            <button onClick={() => resetPin(a)} className="text-stone-400 hover:text-amber-600" title="重設 PIN"><KeyRound size={12}/></button>
+            <button onClick={() => removeUser(a)} className="text-stone-400 hover:text-red-500"><X size={12}/></button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default UserManagement;
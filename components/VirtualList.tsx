@@ -0,0 +1,60 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface VirtualListProps {
+  count: number;
+  rowHeight: number; // Every row is drawn at this fixed height
+  renderRow: (index: number) => React.ReactNode;
+  // Told which rows are about to be drawn, so their data can be fetched ahead of time
+  onRangeChange?: (start: number, end: number) => void;
+  overscan?: number;
+  className?: string;
+}
+
+// Renders only the rows inside (and just around) the viewport, so the list can hold
+// any number of rows without building a DOM node for each
+const VirtualList: React.FC<VirtualListProps> = ({ count, rowHeight, renderRow, onRangeChange, overscan = 8, className = '' }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewportHeight(el.clientHeight));
+    observer.observe(el);
+    setViewportHeight(el.clientHeight);
+    return () => observer.disconnect();
+  }, []);
+
+  // A new result set starts from the top
+  useEffect(() => {
+    if (containerRef.current) containerRef.current.scrollTop = 0;
+    setScrollTop(0);
+  }, [count]);
+
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+
+  useEffect(() => {
+    onRangeChange?.(start, end);
+  }, [start, end, onRangeChange]);
+
+  const rows: React.ReactNode[] = [];
+  for (let i = start; i < end; i++) {
+    rows.push(
+      <div key={i} style={{ position: 'absolute', top: i * rowHeight, left: 0, right: 0, height: rowHeight }}>
+        {renderRow(i)}
+      </div>
+    );
+  }
+
+  return (
+    <div ref={containerRef} onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)} className={`overflow-y-auto ${className}`}>
+      <div style={{ position: 'relative', height: count * rowHeight }}>
+        {rows}
+      </div>
+    </div>
+  );
+};
+
+export default VirtualList;
@@ -0,0 +1,64 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Keyboard } from 'lucide-react';
+import { WedgeDetector, loadWedgeSettings, saveWedgeSettings } from '../utils/wedge';
+
+interface WedgeScannerProps {
+  onScan: (code: string) => void;
+  disabled?: boolean;
+}
+
+// Typing into a field stays typing; the manual box already submits a wedge scan on Enter
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Toggle for the hardware scanner, plus the window-wide key listener while it is on
+const WedgeScanner: React.FC<WedgeScannerProps> = ({ onScan, disabled }) => {
+  const [settings, setSettings] = useState(loadWedgeSettings);
+  const active = settings.enabled && !disabled;
+
+  const onScanRef = useRef(onScan);
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    if (!active) return;
+    const detector = new WedgeDetector(settings);
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.altKey || e.metaKey || isEditable(e.target)) return;
+      const code = detector.key(e.key, e.timeStamp);
+      if (!code) return;
+      // Keep Enter from clicking whatever button has focus, and Tab from moving focus
+      e.preventDefault();
+      e.stopPropagation();
+      onScanRef.current(code);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [active, settings]);
+
+  const toggle = () => {
+    const next = { ...loadWedgeSettings(), enabled: !settings.enabled };
+    saveWedgeSettings(next);
+    setSettings(next);
+  };
+
+  return (
+    <button
+      onClick={toggle}
+      disabled={disabled}
+      className={`flex items-center gap-1 text-[10px] px-2 py-1 rounded-full border transition-colors disabled:opacity-40 ${
+        settings.enabled ? 'bg-stone-800 border-stone-800 text-amber-400 font-bold' : 'bg-stone-200 border-stone-300 text-stone-500 hover:text-stone-700'
+      }`}
+      title={settings.enabled ? '掃描槍模式：直接掃描即可，不需點選輸入框' : '啟用掃描槍 (鍵盤輸入) 模式'}
+    >
+      <Keyboard size={12} />
+      掃描槍
+    </button>
+  );
+};
+
+export default WedgeScanner;
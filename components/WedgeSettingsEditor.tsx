@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { Keyboard, RotateCcw } from 'lucide-react';
+import { DEFAULT_WEDGE_SETTINGS, WedgeSettings, loadWedgeSettings, saveWedgeSettings } from '../utils/wedge';
+
+// Timing limits keep a slip of the settings from making the scanner unusable
+const INTERVAL_RANGE = { min: 10, max: 500 };
+const LENGTH_RANGE = { min: 1, max: 50 };
+
+const clamp = (value: number, { min, max }: { min: number, max: number }) =>
+  Math.min(max, Math.max(min, Number.isFinite(value) ? Math.round(value) : min));
+
+const WedgeSettingsEditor: React.FC = () => {
+  const [settings, setSettings] = useState<WedgeSettings>(loadWedgeSettings);
+
+  // Saved on every edit; the scan view reads them when it next opens
+  const update = (changes: Partial<WedgeSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveWedgeSettings(next);
+  };
+
+  const handleReset = () => update({ ...DEFAULT_WEDGE_SETTINGS, enabled: settings.enabled });
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-stone-100">
+      <div className="flex justify-between items-center mb-1">
+        <h3 className="text-base font-bold text-stone-800 flex items-center gap-2">
+          <Keyboard size={18} className="text-stone-600" />
+          掃描槍設定
+        </h3>
+        <button onClick={handleReset} className="flex items-center gap-1 text-[10px] text-stone-500 hover:text-stone-800 border border-stone-200 rounded-lg px-2 py-1">
+          <RotateCcw size={12} /> 預設
+        </button>
+      </div>
+      <p className="text-[10px] text-stone-400 mb-4">僅套用於本裝置。掃描槍需設定為鍵盤 (HID) 模式並以 Enter 或 Tab 結尾；於盤點頁開啟「掃描槍」後直接掃描即可。</p>
+
+      <div className="grid grid-cols-2 gap-3 text-xs">
+        <label className="flex flex-col gap-1 text-stone-500">
+          前綴 (移除)
+          <input
+            value={settings.prefix}
+            onChange={(e) => update({ prefix: e.target.value })}
+            placeholder="無"
+            className="px-2 py-1.5 border border-stone-200 rounded-md font-mono text-stone-800 focus:outline-none focus:border-stone-400"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-stone-500">
+          後綴 (移除)
+          <input
+            value={settings.suffix}
+            onChange={(e) => update({ suffix: e.target.value })}
+            placeholder="無"
+            className="px-2 py-1.5 border border-stone-200 rounded-md font-mono text-stone-800 focus:outline-none focus:border-stone-400"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-stone-500">
+          按鍵間隔上限 (ms)
+          <input
+            type="number"
+            min={INTERVAL_RANGE.min}
+            max={INTERVAL_RANGE.max}
+            value={settings.maxKeyIntervalMs}
+            onChange={(e) => update({ maxKeyIntervalMs: clamp(Number(e.target.value), INTERVAL_RANGE) })}
+            className="px-2 py-1.5 border border-stone-200 rounded-md font-mono text-stone-800 focus:outline-none focus:border-stone-400"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-stone-500">
+          最短條碼長度
+          <input
+            type="number"
+            min={LENGTH_RANGE.min}
+            max={LENGTH_RANGE.max}
+            value={settings.minLength}
+            onChange={(e) => update({ minLength: clamp(Number(e.target.value), LENGTH_RANGE) })}
+            className="px-2 py-1.5 border border-stone-200 rounded-md font-mono text-stone-800 focus:outline-none focus:border-stone-400"
+          />
+        </label>
+      </div>
+      <p className="text-[10px] text-stone-400 mt-3">間隔較長的按鍵視為人工輸入而忽略；掃描槍無法辨識時可調高間隔上限。</p>
+    </div>
+  );
+};
+
+export default WedgeSettingsEditor;
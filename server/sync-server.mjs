@@ -0,0 +1,151 @@
+// Optional LAN sync server for multi-device counting.
+// Run on a laptop in the warehouse network:  npm run sync-server  (PORT / SYNC_DATA env vars optional)
+// Devices push their queued changes and pull everyone else's in one POST /api/sync round trip.
+// No dependencies beyond Node itself; state is kept in a single JSON file.
+
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_FILE = process.env.SYNC_DATA || path.join(path.dirname(fileURLToPath(import.meta.url)), 'sync-data.json');
+const SAVE_DELAY_MS = 1000;
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+// seq increases on every change so devices can pull "everything after my cursor"
+const state = {
+  seq: 0,
+  sessions: {}, // id -> { session, seq }
+  records: {},  // id -> { record, seq } or { deleted: true, sessionId, seq }
+  devices: {}   // deviceId -> { user, lastSeen }
+};
+
+const load = () => {
+  if (!fs.existsSync(DATA_FILE)) return;
+  try {
+    Object.assign(state, JSON.parse(fs.readFileSync(DATA_FILE, 'utf-8')));
+  } catch (e) {
+    console.error(`Could not read ${DATA_FILE}, starting empty`, e);
+  }
+};
+
+let saveTimer = null;
+const scheduleSave = () => {
+  if (saveTimer) return;
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    const tmp = `${DATA_FILE}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(state));
+    fs.renameSync(tmp, DATA_FILE);
+  }, SAVE_DELAY_MS);
+};
+
+const applyPush = ({ sessions = [], records = [], deleted = [] }) => {
+  sessions.forEach(session => {
+    if (!session || !session.id) return;
+    state.sessions[session.id] = { session, seq: ++state.seq };
+  });
+  records.forEach(record => {
+    if (!record || !record.id || !record.sessionId) return;
+    state.records[record.id] = { record, seq: ++state.seq };
+  });
+  deleted.forEach(id => {
+    const entry = state.records[id];
+    if (!entry || entry.deleted) return;
+    state.records[id] = { deleted: true, sessionId: entry.record.sessionId, seq: ++state.seq };
+  });
+};
+
+const changesSince = (cursor) => {
+  const sessions = Object.values(state.sessions).filter(e => e.seq > cursor).map(e => e.session);
+  const records = [];
+  const deleted = [];
+  Object.entries(state.records).forEach(([id, e]) => {
+    if (e.seq <= cursor) return;
+    if (e.deleted) deleted.push(id);
+    else records.push(e.record);
+  });
+  return { sessions, records, deleted };
+};
+
+const deviceSummary = () => {
+  const counts = {};
+  Object.values(state.records).forEach(e => {
+    if (e.deleted) return;
+    const user = e.record.scannedBy || '';
+    counts[user] = (counts[user] || 0) + 1;
+  });
+  return Object.entries(state.devices).map(([deviceId, d]) => ({
+    deviceId,
+    user: d.user,
+    lastSeen: d.lastSeen,
+    records: counts[d.user] || 0
+  }));
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    // Lets pages served over https reach this server on a private address (Chrome private network access)
+    'Access-Control-Allow-Private-Network': 'true'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let size = 0;
+  const chunks = [];
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new Error('Request body too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8') || '{}'));
+    } catch (e) {
+      reject(e);
+    }
+  });
+  req.on('error', reject);
+});
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  if (req.method === 'GET' && req.url === '/api/health') {
+    return send(res, 200, { ok: true, seq: state.seq, devices: deviceSummary() });
+  }
+
+  if (req.method === 'POST' && req.url === '/api/sync') {
+    let body;
+    try {
+      body = await readBody(req);
+    } catch (e) {
+      return send(res, 400, { error: e.message });
+    }
+    if (!body.deviceId) return send(res, 400, { error: 'deviceId is required' });
+
+    const cursor = Number(body.cursor) || 0;
+    applyPush(body);
+    state.devices[body.deviceId] = { user: body.user || '', lastSeen: Date.now() };
+    scheduleSave();
+
+    return send(res, 200, { cursor: state.seq, ...changesSince(cursor), devices: deviceSummary() });
+  }
+
+  send(res, 404, { error: 'Not found' });
+});
+
+load();
+server.listen(PORT, () => {
+  console.log(`Sync server listening on http://0.0.0.0:${PORT} (data: ${DATA_FILE})`);
+});
@@ -0,0 +1,43 @@
+/** @type {import('tailwindcss').Config} */
+export default {
+  content: ['./index.html', './App.tsx', './components/**/*.tsx'],
+  theme: {
+    extend: {
+      colors: {
+        stone: {
+          50: '#fafaf9',
+          100: '#f5f5f4',
+          200: '#e7e5e4',
+          300: '#d6d3d1',
+          400: '#a8a29e',
+          500: '#78716c',
+          600: '#57534e',
+          700: '#44403c',
+          800: '#292524',
+          900: '#1c1917',
+        },
+        amber: {
+          700: '#b45309',
+        }
+      },
+      fontFamily: {
+        sans: ['Inter', 'system-ui', 'sans-serif'],
+      },
+      animation: {
+        'scan': 'scan 2.5s cubic-bezier(0.4, 0, 0.6, 1) infinite',
+        'bounce-short': 'bounce-short 0.5s ease-in-out 1'
+      },
+      keyframes: {
+        scan: {
+          '0%, 100%': { transform: 'translateY(-120px)' },
+          '50%': { transform: 'translateY(120px)' },
+        },
+        'bounce-short': {
+          '0%, 100%': { transform: 'translateY(0)' },
+          '50%': { transform: 'translateY(-10%)' },
+        }
+      }
+    },
+  },
+  plugins: [],
+};
@@ -1,23 +1,37 @@
-export type ScanStatus = 'OK' | 'Not Found' | 'Duplicated' | 'Checked';
+export type ScanStatus = 'OK' | 'Not Found' | 'Duplicated' | 'Checked' | 'Misplaced';
+
+// SERIAL: one unit per PartID. COUNT: repeat scans add 1. PROMPT: ask for the amount on each scan.
+export type ScanMode = 'SERIAL' | 'COUNT' | 'PROMPT';
 
 export interface InventoryRecord {
   id: string; // uuid
   InventoryDate: number; // Timestamp
   Status: ScanStatus;
   scannedBy: string;
+  sessionId: string; // InventorySession.id
+  Quantity?: number; // Counted units, 1 for serialized parts
+  MatchedBy?: LookupField; // Set when the label carried this identifier instead of the PartID
   
   // Fields from TPE EMM CSV format
   PartID: string;
   VendorSN?: string;
   Project?: string;
   Class?: string;
-  Location?: string;
+  Location?: string; // Master (book) location
+  FoundLocation?: string; // Where the operator actually found the part
   Vendor?: string;
   VendorPN?: string;
   CustomerPN?: string;
   Description?: string;
 }
 
+// A part caught in batch camera mode, waiting to be written. 'Duplicated' parts were already
+// recorded in the session and are skipped on commit.
+export interface BatchScanItem {
+  record: InventoryRecord;
+  status: ScanStatus;
+}
+
 export interface MasterItem {
   PartID: string;
   VendorSN: string;
@@ -28,10 +42,186 @@ export interface MasterItem {
   VendorPN: string;
   CustomerPN: string;
   Description: string;
+  ExpectedQty?: number; // Book quantity for bulk consumables
+}
+
+export type CategoryMatchType = 'prefix' | 'regex' | 'field';
+export type CategoryField = 'Project' | 'Class' | 'Vendor' | 'Location';
+
+// Progress and reports group parts by these, first match in order wins; unmatched parts fall into 其他
+export interface CategoryDef {
+  id: string;
+  name: string;
+  type: CategoryMatchType;
+  pattern: string; // PartID prefix, PartID regex, or the field value to match
+  field?: CategoryField; // Only for type 'field'
+  order: number;
+}
+
+// Master fields a related-item rule can compare
+export type RelatedField = 'VendorPN' | 'CustomerPN' | 'Description' | 'Project' | 'Class' | 'Vendor' | 'Location';
+
+export interface RelatedNormalization {
+  ignoreCase: boolean;
+  stripSpaces: boolean;
+  stripDashes: boolean; // Also dots, slashes and underscores
+}
+
+// Items are related when every listed field matches after normalisation; rules are tried in array order
+export interface RelatedRule {
+  id: string;
+  fields: RelatedField[];
+  normalization: RelatedNormalization;
+  enabled: boolean;
+}
+
+export interface RelatedMatch {
+  item: MasterItem;
+  rule: RelatedRule; // Highest-priority rule that matched
+}
+
+// How a raw barcode payload is split into fields. For 'regex' each field is a pattern whose first
+// capture group is the value; for 'gs1' each field lists Application Identifiers, first present wins.
+export type PayloadRuleType = 'gs1' | 'regex';
+
+export interface PayloadRule {
+  id: string;
+  name: string;
+  type: PayloadRuleType;
+  part: string;
+  serial: string;
+  qty: string;
+  enabled: boolean;
+}
+
+export interface ParsedPayload {
+  partId?: string;
+  serial?: string;
+  quantity?: number;
+  rule: PayloadRule;
+}
+
+// Master identifiers a label is looked up by when it carries no known PartID, in this order
+export type LookupField = 'VendorSN' | 'CustomerPN' | 'VendorPN';
+
+// What a scan resolved to. Several candidates means a fallback identifier is shared by more than
+// one part and the operator has to pick; none means nothing in the master matched.
+export interface ResolvedPayload {
+  partId: string; // PartID of the single candidate, else the scanned code as-is
+  quantity?: number;
+  serial?: string; // Parsed from the label
+  candidates: MasterItem[];
+  matchedBy?: LookupField;
+}
+
+export type SessionStatus = 'open' | 'frozen' | 'closed';
+
+// A count campaign. Scope lists are empty when the session covers the whole master.
+export interface InventorySession {
+  id: string;
+  name: string;
+  startDate: number; // Timestamp
+  endDate?: number; // Timestamp, set when closed
+  scopeProjects: string[];
+  scopeLocations: string[];
+  status: SessionStatus;
+}
+
+export type UserRole = 'admin' | 'counter' | 'viewer';
+
+export interface UserAccount {
+  name: string; // Shown as scannedBy
+  role: UserRole;
+  salt: string;
+  pinHash: string; // Empty until an admin sets a PIN (migrated accounts)
+  createdAt: number; // Timestamp
+}
+
+export type AuditAction =
+  | 'delete'
+  | 'status_change'
+  | 'quantity_change'
+  | 'clear'
+  | 'merge'
+  | 'restore'
+  | 'session_status'
+  | 'master_clear'
+  | 'master_sync'
+  | 'master_import';
+
+// Append-only: entries are never updated or removed
+export interface AuditEntry {
+  id?: number; // Auto-increment
+  timestamp: number;
+  actor: string;
+  action: AuditAction;
+  sessionId?: string;
+  recordIds: string[];
+  before?: Partial<InventoryRecord>[];
+  after?: Partial<InventoryRecord>[];
+  note?: string;
 }
 
 export interface CsvImportStats {
   total: number;
   success: number;
   errors: number;
-}
\ No newline at end of file
+}
+
+export interface MasterFieldChange {
+  field: keyof MasterItem;
+  before: string;
+  after: string;
+}
+
+// Delta between the stored master and an incoming file, keyed by PartID
+export interface MasterDiff {
+  added: MasterItem[];
+  removed: MasterItem[];
+  modified: { before: MasterItem, after: MasterItem, changes: MasterFieldChange[] }[];
+  unchanged: number;
+}
+
+// One rejected row; line is 1-based as shown in a text editor
+export interface CsvImportError {
+  line: number;
+  partId: string;
+  reason: string;
+}
+
+// Local change waiting to be pushed to the LAN sync server. Only the key is queued;
+// the current row is read at push time, and a missing record means it was deleted.
+export interface SyncOp {
+  id?: number; // Auto-increment
+  kind: 'record' | 'session';
+  key: string;
+}
+
+export interface SyncDevice {
+  deviceId: string;
+  user: string;
+  lastSeen: number;
+  records: number; // Live records scanned by this device's user
+}
+
+export interface SyncState {
+  online: boolean;
+  lastSync?: number;
+  devices: SyncDevice[];
+  error?: string;
+}
+
+export type SnapshotReason = 'scans' | 'manual' | 'delete' | 'clear' | 'merge' | 'restore' | 'user_delete';
+
+// Point-in-time copy of records, sessions, accounts and device settings (master excluded)
+export interface Snapshot {
+  id?: number; // Auto-increment
+  createdAt: number;
+  reason: SnapshotReason;
+  actor: string;
+  counts: { records: number, sessions: number, users: number };
+  sessions: InventorySession[];
+  records: InventoryRecord[];
+  users: UserAccount[];
+  settings: Record<string, string>; // zen_* localStorage entries
+}
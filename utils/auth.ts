@@ -0,0 +1,45 @@
+import { UserAccount, UserRole } from '../types';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: '管理員',
+  counter: '盤點員',
+  viewer: '檢視者'
+};
+
+const PBKDF2_ITERATIONS = 100000;
+
+export const PIN_PATTERN = /^\d{4,8}$/;
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export const generateSalt = () => {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return toHex(bytes.buffer);
+};
+
+// PBKDF2-SHA256 via WebCrypto; the PIN itself is never stored
+export const hashPin = async (pin: string, salt: string): Promise<string> => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: encoder.encode(salt), iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    key,
+    256
+  );
+  return toHex(bits);
+};
+
+export const createAccount = async (name: string, role: UserRole, pin: string): Promise<UserAccount> => {
+  const salt = generateSalt();
+  return { name, role, salt, pinHash: await hashPin(pin, salt), createdAt: Date.now() };
+};
+
+export const verifyPin = async (account: UserAccount, pin: string): Promise<boolean> => {
+  if (!account.pinHash) return false;
+  return (await hashPin(pin, account.salt)) === account.pinHash;
+};
+
+export const canScan = (role?: UserRole) => role === 'admin' || role === 'counter';
+export const canManage = (role?: UserRole) => role === 'admin';
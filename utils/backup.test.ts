@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { InventoryRecord } from '../types';
+import { BackupPayload, createBackup, readBackup } from './backup';
+import { createSession } from './session';
+
+const session = { ...createSession('盤點'), id: 's1' };
+
+const record: InventoryRecord = {
+  id: 'r1', InventoryDate: 1700000000000, Status: 'OK', scannedBy: 'Amy', sessionId: 's1', Quantity: 1,
+  PartID: 'P-1', VendorSN: '', Project: '', Class: '', Location: 'A-01', FoundLocation: 'A-01',
+  Vendor: '', VendorPN: '', CustomerPN: '', Description: ''
+};
+
+const PAYLOAD: BackupPayload = {
+  sessions: [session],
+  records: [record],
+  master: [{ PartID: 'P-1', VendorSN: '', Project: '', Class: '', Location: 'A-01', Vendor: '', VendorPN: '', CustomerPN: '', Description: '' }],
+  users: [{ name: 'Amy', role: 'admin', salt: 'x', pinHash: 'y', createdAt: 1 }]
+};
+
+const asFile = (content: BlobPart) => new File([content], 'backup.json');
+const json = (data: unknown) => asFile(JSON.stringify(data));
+
+describe('readBackup', () => {
+  it.each([['plain', false], ['gzip', true]])('reads back a %s backup', async (_, compress) => {
+    const blob = await createBackup(PAYLOAD, 'Amy', compress);
+    const parsed = await readBackup(asFile(await blob.arrayBuffer()), '');
+
+    expect(parsed.createdBy).toBe('Amy');
+    expect(parsed.payload).toEqual(PAYLOAD);
+  });
+
+  it('rejects a payload that no longer matches its checksum', async () => {
+    const file = JSON.parse(await (await createBackup(PAYLOAD, 'Amy', false)).text());
+    file.payload.records[0].Quantity = 99;
+
+    await expect(readBackup(json(file), '')).rejects.toThrow('檢查碼不符');
+  });
+
+  it('rejects backups from a newer version', async () => {
+    const file = JSON.parse(await (await createBackup(PAYLOAD, 'Amy', false)).text());
+
+    await expect(readBackup(json({ ...file, schemaVersion: 99 }), '')).rejects.toThrow('v99');
+  });
+
+  it('lists invalid fields', async () => {
+    const broken = { ...PAYLOAD, records: [{ ...record, Status: 'Lost', PartID: '' }] };
+    const blob = await createBackup(broken as BackupPayload, 'Amy', false);
+
+    await expect(readBackup(asFile(await blob.text()), '')).rejects.toThrow(/records\[0\]\.Status[\s\S]*records\[0\]\.PartID/);
+  });
+
+  it('rejects files that are not backups', async () => {
+    await expect(readBackup(json({ hello: 'world' }), 's1')).rejects.toThrow('無法辨識的備份格式');
+  });
+});
+
+describe('v1 backups', () => {
+  const v1 = {
+    version: '1.5',
+    timestamp: 1600000000000,
+    users: ['Amy'],
+    records: [{ ...record, sessionId: undefined, scannedBy: undefined, InventoryDate: '2020-09-13T12:26:40.000Z' }],
+    masterCount: 10
+  };
+
+  it('moves records into the target session and keeps the device master', async () => {
+    const parsed = await readBackup(json(v1), 's2');
+
+    expect(parsed.schemaVersion).toBe(1);
+    expect(parsed.payload.master).toBeNull();
+    expect(parsed.payload.records[0]).toMatchObject({ sessionId: 's2', scannedBy: '', InventoryDate: 1600000000000 });
+    expect(parsed.payload.users[0]).toMatchObject({ name: 'Amy', role: 'counter', pinHash: '' });
+  });
+
+  it('needs a session to restore into', async () => {
+    await expect(readBackup(json(v1), '')).rejects.toThrow('請先建立盤點場次');
+  });
+});
@@ -0,0 +1,198 @@
+import { InventoryRecord, InventorySession, MasterItem, UserAccount, ScanStatus, SessionStatus, UserRole } from '../types';
+import { LOOKUP_FIELDS } from './payload';
+
+// v1: app 1.5 format { version: "1.5", users, records, masterCount } (current session only, no master)
+// v2: full system with checksum; sessions, records of every session, master and accounts
+export const BACKUP_SCHEMA_VERSION = 2;
+
+export type RestoreMode = 'replace' | 'merge';
+
+export interface BackupPayload {
+  sessions: InventorySession[];
+  records: InventoryRecord[];
+  master: MasterItem[] | null; // null: the backup carries no master, keep the device's own
+  users: UserAccount[];
+}
+
+interface BackupFile {
+  app: 'zen-inventory';
+  schemaVersion: number;
+  createdAt: number;
+  createdBy: string;
+  checksum: string; // SHA-256 of JSON.stringify(payload)
+  payload: BackupPayload;
+}
+
+export interface ParsedBackup {
+  schemaVersion: number;
+  createdAt: number;
+  createdBy: string;
+  payload: BackupPayload;
+}
+
+const SCAN_STATUSES: ScanStatus[] = ['OK', 'Not Found', 'Duplicated', 'Checked', 'Misplaced'];
+const SESSION_STATUSES: SessionStatus[] = ['open', 'frozen', 'closed'];
+const USER_ROLES: UserRole[] = ['admin', 'counter', 'viewer'];
+const MAX_REPORTED_ERRORS = 10;
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+export const canCompress = () => typeof CompressionStream !== 'undefined';
+
+const sha256 = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const createBackup = async (payload: BackupPayload, createdBy: string, compress: boolean): Promise<Blob> => {
+  const file: BackupFile = {
+    app: 'zen-inventory',
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    createdAt: Date.now(),
+    createdBy,
+    checksum: await sha256(JSON.stringify(payload)),
+    payload
+  };
+  const json = new Blob([JSON.stringify(file)], { type: 'application/json' });
+  if (!compress || !canCompress()) return json;
+  return new Response(json.stream().pipeThrough(new CompressionStream('gzip'))).blob();
+};
+
+// Gzip is recognised by its magic bytes, not the file name
+const readBackupText = async (file: File) => {
+  const buffer = await file.arrayBuffer();
+  const bytes = new Uint8Array(buffer, 0, Math.min(2, buffer.byteLength));
+  if (bytes[0] === GZIP_MAGIC[0] && bytes[1] === GZIP_MAGIC[1]) {
+    if (typeof DecompressionStream === 'undefined') throw new Error('此瀏覽器不支援解壓縮備份檔');
+    return new Response(new Blob([buffer]).stream().pipeThrough(new DecompressionStream('gzip'))).text();
+  }
+  return new TextDecoder('utf-8').decode(buffer);
+};
+
+// --- Field validation ---
+
+type Check = (value: any) => boolean;
+const isString: Check = v => typeof v === 'string';
+const isNonEmptyString: Check = v => typeof v === 'string' && v.length > 0;
+const isNumber: Check = v => typeof v === 'number' && Number.isFinite(v);
+const optional = (check: Check): Check => v => v === undefined || v === null || check(v);
+const oneOf = (values: readonly string[]): Check => v => values.includes(v);
+const isStringArray: Check = v => Array.isArray(v) && v.every(isString);
+
+const RECORD_SCHEMA: Record<keyof InventoryRecord, Check> = {
+  id: isNonEmptyString,
+  InventoryDate: isNumber,
+  Status: oneOf(SCAN_STATUSES),
+  scannedBy: isString,
+  sessionId: isNonEmptyString,
+  Quantity: optional(isNumber),
+  MatchedBy: optional(oneOf(LOOKUP_FIELDS)),
+  FoundLocation: optional(isString),
+  PartID: isNonEmptyString,
+  VendorSN: isString,
+  Project: isString,
+  Class: isString,
+  Location: isString,
+  Vendor: isString,
+  VendorPN: isString,
+  CustomerPN: isString,
+  Description: isString
+};
+
+const MASTER_SCHEMA: Record<keyof MasterItem, Check> = {
+  PartID: isNonEmptyString,
+  VendorSN: isString,
+  Project: isString,
+  Class: isString,
+  Location: isString,
+  Vendor: isString,
+  VendorPN: isString,
+  CustomerPN: isString,
+  Description: isString,
+  ExpectedQty: optional(isNumber)
+};
+
+const SESSION_SCHEMA: Record<keyof InventorySession, Check> = {
+  id: isNonEmptyString,
+  name: isString,
+  startDate: isNumber,
+  endDate: optional(isNumber),
+  scopeProjects: isStringArray,
+  scopeLocations: isStringArray,
+  status: oneOf(SESSION_STATUSES)
+};
+
+const USER_SCHEMA: Record<keyof UserAccount, Check> = {
+  name: isNonEmptyString,
+  role: oneOf(USER_ROLES),
+  salt: isString,
+  pinHash: isString,
+  createdAt: isNumber
+};
+
+const validateRows = (label: string, rows: any, schema: Record<string, Check>, errors: string[]) => {
+  if (!Array.isArray(rows)) {
+    errors.push(`${label}: 不是陣列`);
+    return;
+  }
+  rows.forEach((row, i) => {
+    if (!row || typeof row !== 'object') {
+      errors.push(`${label}[${i}]: 不是物件`);
+      return;
+    }
+    Object.entries(schema).forEach(([field, check]) => {
+      if (!check(row[field])) errors.push(`${label}[${i}].${field}: 值無效 (${JSON.stringify(row[field])})`);
+    });
+  });
+};
+
+// --- Migration ---
+
+// v1 records belong to whichever session was being viewed when the backup was taken
+const migrateV1 = (data: any, targetSessionId: string): ParsedBackup => {
+  if (!targetSessionId) throw new Error('舊版備份不含場次資料，請先建立盤點場次再還原');
+  const users = (Array.isArray(data.users) ? data.users : []).map((u: any) => typeof u === 'string'
+    ? { name: u, role: 'counter', salt: '', pinHash: '', createdAt: Date.now() }
+    : u);
+  const records = (Array.isArray(data.records) ? data.records : []).map((r: any) => ({
+    ...r,
+    sessionId: targetSessionId,
+    scannedBy: r.scannedBy ?? '',
+    InventoryDate: typeof r.InventoryDate === 'string' ? Date.parse(r.InventoryDate) : r.InventoryDate
+  }));
+  return {
+    schemaVersion: 1,
+    createdAt: data.timestamp || 0,
+    createdBy: '',
+    payload: { sessions: [], records, master: null, users }
+  };
+};
+
+// Reads, migrates and validates a backup file; throws with a readable list of problems
+export const readBackup = async (file: File, targetSessionId: string): Promise<ParsedBackup> => {
+  const data = JSON.parse(await readBackupText(file));
+
+  let parsed: ParsedBackup;
+  if (data && data.app === 'zen-inventory' && typeof data.schemaVersion === 'number') {
+    if (data.schemaVersion > BACKUP_SCHEMA_VERSION) throw new Error(`備份版本 v${data.schemaVersion} 較新，請先更新程式`);
+    if (data.checksum !== await sha256(JSON.stringify(data.payload))) throw new Error('檢查碼不符，備份檔可能已損毀');
+    parsed = { schemaVersion: data.schemaVersion, createdAt: data.createdAt, createdBy: data.createdBy, payload: data.payload };
+  } else if (data && Array.isArray(data.records)) {
+    parsed = migrateV1(data, targetSessionId);
+  } else {
+    throw new Error('無法辨識的備份格式');
+  }
+
+  const errors: string[] = [];
+  const { payload } = parsed;
+  validateRows('sessions', payload.sessions, SESSION_SCHEMA, errors);
+  validateRows('records', payload.records, RECORD_SCHEMA, errors);
+  validateRows('users', payload.users, USER_SCHEMA, errors);
+  if (payload.master !== null) validateRows('master', payload.master, MASTER_SCHEMA, errors);
+
+  if (errors.length > 0) {
+    const shown = errors.slice(0, MAX_REPORTED_ERRORS).join('\n');
+    const more = errors.length > MAX_REPORTED_ERRORS ? `\n...另有 ${errors.length - MAX_REPORTED_ERRORS} 項錯誤` : '';
+    throw new Error(`備份驗證失敗：\n${shown}${more}`);
+  }
+  return parsed;
+};
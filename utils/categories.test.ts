@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { CategoryDef } from '../types';
+import { DEFAULT_CATEGORIES, OTHER_CATEGORY_ID, categoryReporter, compileCategories, validateCategory } from './categories';
+
+const def = (overrides: Partial<CategoryDef>): CategoryDef =>
+  ({ id: 'c', name: 'C', type: 'prefix', pattern: 'C', order: 0, ...overrides });
+
+describe('compileCategories', () => {
+  it('matches PartID prefixes ignoring case and spaces', () => {
+    const classify = compileCategories(DEFAULT_CATEGORIES);
+    expect(classify({ PartID: ' a26-0001' })).toBe('A26');
+    expect(classify({ PartID: 'INT-7' })).toBe('INT');
+    expect(classify({ PartID: 'X-1' })).toBe(OTHER_CATEGORY_ID);
+  });
+
+  it('matches PartID regexes and master fields', () => {
+    const classify = compileCategories([
+      def({ id: 'cable', type: 'regex', pattern: '^CB-\\d+$', order: 0 }),
+      def({ id: 'lab', type: 'field', field: 'Project', pattern: 'lab', order: 1 })
+    ]);
+    expect(classify({ PartID: 'cb-12' })).toBe('cable');
+    expect(classify({ PartID: 'CB-12X' })).toBe(OTHER_CATEGORY_ID);
+    expect(classify({ PartID: 'Z', Project: ' LAB ' })).toBe('lab');
+  });
+
+  it('uses the first definition in order, whatever the array order', () => {
+    const classify = compileCategories([
+      def({ id: 'late', pattern: 'A', order: 1 }),
+      def({ id: 'early', pattern: 'A2', order: 0 })
+    ]);
+    expect(classify({ PartID: 'A26' })).toBe('early');
+  });
+
+  it('never matches with a broken regex', () => {
+    expect(compileCategories([def({ type: 'regex', pattern: '(' })])({ PartID: '(' })).toBe(OTHER_CATEGORY_ID);
+  });
+});
+
+describe('validateCategory', () => {
+  it('rejects unusable definitions', () => {
+    expect(validateCategory(def({ name: ' ' }))).toBeDefined();
+    expect(validateCategory(def({ name: '其他' }))).toBeDefined();
+    expect(validateCategory(def({ type: 'field', field: undefined }))).toBeDefined();
+    expect(validateCategory(def({ type: 'regex', pattern: '(' }))).toBeDefined();
+    expect(validateCategory(def({}))).toBeUndefined();
+  });
+});
+
+describe('categoryReporter', () => {
+  it('names rows and groups them in category order, 其他 last', () => {
+    const reporter = categoryReporter(DEFAULT_CATEGORIES);
+    const rows = ['X-1', 'C38-1', 'A26-1', 'C38-2'].map(id => [id, reporter.name({ PartID: id })]);
+    reporter.sort(rows, 1);
+
+    expect(rows).toEqual([['A26-1', 'A26'], ['C38-1', 'C38'], ['C38-2', 'C38'], ['X-1', '其他']]);
+  });
+});
@@ -0,0 +1,91 @@
+import { CategoryDef, CategoryField, CategoryMatchType, MasterItem } from '../types';
+
+export const OTHER_CATEGORY_ID = 'OTHERS';
+export const OTHER_CATEGORY_NAME = '其他';
+
+export const CATEGORY_TYPE_LABELS: Record<CategoryMatchType, string> = {
+  prefix: 'PartID 前綴',
+  regex: 'PartID 正規表示式',
+  field: '主檔欄位'
+};
+
+export const CATEGORY_FIELD_LABELS: Record<CategoryField, string> = {
+  Project: '專案',
+  Class: '類別',
+  Vendor: '廠商',
+  Location: '儲位'
+};
+
+// The customer programs that used to be hard-coded in StockStatus
+export const DEFAULT_CATEGORIES: CategoryDef[] = ['A26', 'A31', 'C38', 'INT'].map((prefix, i) => ({
+  id: prefix,
+  name: prefix,
+  type: 'prefix',
+  pattern: prefix,
+  order: i
+}));
+
+// Master items and scan records both carry these fields
+type CategorySource = Pick<MasterItem, 'PartID'> & Partial<Pick<MasterItem, CategoryField>>;
+
+// Error message for an unusable definition, shown by the editor before saving
+export const validateCategory = (def: CategoryDef): string | undefined => {
+  if (!def.name.trim()) return '請輸入名稱';
+  if (def.id === OTHER_CATEGORY_ID || def.name.trim() === OTHER_CATEGORY_NAME) return `「${OTHER_CATEGORY_NAME}」為保留名稱`;
+  if (!def.pattern.trim()) return '請輸入比對條件';
+  if (def.type === 'field' && !def.field) return '請選擇欄位';
+  if (def.type === 'regex') {
+    try {
+      new RegExp(def.pattern);
+    } catch (e) {
+      return '正規表示式格式錯誤';
+    }
+  }
+  return undefined;
+};
+
+// Prefix and field matches ignore case and surrounding spaces, like the original PartID prefix check
+const matcher = (def: CategoryDef): ((item: CategorySource) => boolean) => {
+  const pattern = def.pattern.trim().toUpperCase();
+  switch (def.type) {
+    case 'prefix':
+      return item => (item.PartID || '').trim().toUpperCase().startsWith(pattern);
+    case 'regex': {
+      let re: RegExp;
+      try {
+        re = new RegExp(def.pattern, 'i');
+      } catch (e) {
+        return () => false;
+      }
+      return item => re.test((item.PartID || '').trim());
+    }
+    case 'field':
+      return item => !!def.field && (item[def.field] || '').trim().toUpperCase() === pattern;
+  }
+};
+
+// Returns a classifier giving the category id of a master item or scan record
+export const compileCategories = (defs: CategoryDef[]) => {
+  const compiled = [...defs].sort((a, b) => a.order - b.order).map(def => ({ id: def.id, test: matcher(def) }));
+  return (item: CategorySource): string => compiled.find(c => c.test(item))?.id ?? OTHER_CATEGORY_ID;
+};
+
+// Category ids in display order, 其他 last
+export const categoryOptions = (defs: CategoryDef[]): { id: string, name: string }[] => [
+  ...[...defs].sort((a, b) => a.order - b.order).map(d => ({ id: d.id, name: d.name })),
+  { id: OTHER_CATEGORY_ID, name: OTHER_CATEGORY_NAME }
+];
+
+// Report support: the category name for a row's Category column, and an in-place sort
+// that groups rows by category order (stable, so each group keeps its original order)
+export const categoryReporter = (defs: CategoryDef[]) => {
+  const classify = compileCategories(defs);
+  const options = categoryOptions(defs);
+  const nameOf = new Map(options.map(o => [o.id, o.name]));
+  const rankOf = new Map<unknown, number>(options.map((o, i) => [o.name, i]));
+  return {
+    name: (item: CategorySource) => nameOf.get(classify(item)) ?? OTHER_CATEGORY_NAME,
+    sort: (rows: unknown[][], column: number) =>
+      rows.sort((a, b) => (rankOf.get(a[column]) ?? options.length) - (rankOf.get(b[column]) ?? options.length))
+  };
+};
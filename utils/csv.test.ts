@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { CsvParser, CsvTable, detectDelimiter, parseCsv, toCsvText } from './csv';
+
+// Feeds text to a streaming parser in pieces of `size` characters
+const parseInChunks = (text: string, size: number): CsvTable => {
+  const parser = new CsvParser(',');
+  const out: CsvTable = { rows: [], lineNumbers: [] };
+  const add = (t: CsvTable) => {
+    out.rows.push(...t.rows);
+    out.lineNumbers.push(...t.lineNumbers);
+    out.unterminatedLine = t.unterminatedLine;
+  };
+  for (let i = 0; i < text.length; i += size) add(parser.push(text.slice(i, i + size)));
+  add(parser.end());
+  return out;
+};
+
+describe('parseCsv', () => {
+  it('keeps newlines, delimiters and doubled quotes inside quoted fields', () => {
+    const { rows } = parseCsv('a,b\r\n"x, y","line 1\nline 2","say ""hi"""\r\n', ',');
+    expect(rows).toEqual([['a', 'b'], ['x, y', 'line 1\nline 2', 'say "hi"']]);
+  });
+
+  it('numbers rows by the line they start on', () => {
+    const { lineNumbers } = parseCsv('h\n"a\nb\nc"\nd\n', ',');
+    expect(lineNumbers).toEqual([1, 2, 5]);
+  });
+
+  it('reports a quoted field that never closes, with the line it opened on', () => {
+    const table = parseCsv('h1,h2\nok,1\n"broken,2\nmore\n', ',');
+    expect(table.unterminatedLine).toBe(3);
+    expect(table.rows[2][0]).toBe('broken,2\nmore\n');
+  });
+
+  it('does not flag a file whose last quoted field closes at the very end', () => {
+    expect(parseCsv('a,"b"', ',').unterminatedLine).toBeUndefined();
+  });
+
+  it('strips a leading BOM and accepts a missing final newline', () => {
+    expect(parseCsv('\uFEFFa;b\n1;2', ';').rows).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('gives the same rows however the text is chunked', () => {
+    const text = 'id,desc\r\n1,"a ""quoted""\r\nvalue"\r\n2,plain\r\n';
+    const whole = parseCsv(text, ',');
+    [1, 2, 3, 7].forEach(size => {
+      expect(parseInChunks(text, size)).toEqual(whole);
+    });
+  });
+
+  it('reads back what toCsvText writes', () => {
+    const rows = [[' padded ', 'a,b', 'line\nbreak', 'q"uote']];
+    expect(parseCsv(toCsvText(['h1', 'h2', 'h3', 'h4'], rows)).rows.slice(1)).toEqual(rows);
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('counts delimiters outside quotes only', () => {
+    expect(detectDelimiter('"a,b,c";d\n"e,f";g\n')).toBe(';');
+    expect(detectDelimiter('a\tb\tc\n1\t2\t3\n')).toBe('\t');
+  });
+});
@@ -0,0 +1,239 @@
+// RFC 4180 CSV reading and writing shared by every import and export.
+// Quoted fields may contain the delimiter, doubled quotes and line breaks.
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+// Parsed rows plus the physical line each row starts on, for error reports
+export interface CsvTable {
+  rows: string[][];
+  lineNumbers: number[];
+  unterminatedLine?: number; // A quoted field opened on this line was never closed
+}
+
+export const CSV_DELIMITERS: { value: CsvDelimiter, label: string }[] = [
+  { value: ',', label: '逗號 ,' },
+  { value: ';', label: '分號 ;' },
+  { value: '\t', label: 'Tab' }
+];
+
+const DELIMITER_KEY = 'zen_csv_delimiter';
+const DETECT_SAMPLE_LINES = 10;
+// Enough of a large file to show the mapping preview and sniff its encoding
+const PREVIEW_BYTES = 256 * 1024;
+
+export const getCsvDelimiter = (): CsvDelimiter => {
+  const saved = localStorage.getItem(DELIMITER_KEY);
+  return CSV_DELIMITERS.find(d => d.value === saved)?.value ?? ',';
+};
+
+export const setCsvDelimiter = (delimiter: CsvDelimiter) => {
+  localStorage.setItem(DELIMITER_KEY, delimiter);
+};
+
+// Picks the candidate that occurs most often outside quotes in the first few lines
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const counts = new Map<CsvDelimiter, number>(CSV_DELIMITERS.map(d => [d.value, 0]));
+  let inQuotes = false;
+  let lines = 0;
+  for (let i = 0; i < text.length && lines < DETECT_SAMPLE_LINES; i++) {
+    const ch = text[i];
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && ch === '\n') lines++;
+    else if (!inQuotes && counts.has(ch as CsvDelimiter)) counts.set(ch as CsvDelimiter, counts.get(ch as CsvDelimiter)! + 1);
+  }
+  let best: CsvDelimiter = ',';
+  counts.forEach((n, d) => { if (n > counts.get(best)!) best = d; });
+  return best;
+};
+
+// Incremental parser: feed decoded text in any chunk sizes, collect completed rows as they appear.
+// Stray quotes inside an unquoted field are kept literally rather than rejected.
+export class CsvParser {
+  private field = '';
+  private row: string[] = [];
+  private fieldStarted = false;
+  private inQuotes = false;
+  private quotePending = false; // Saw a quote inside quotes: either "" or the closing quote
+  private skipLF = false;
+  private line = 1;
+  private rowLine = 1;
+  private atStart = true;
+  private out: CsvTable = { rows: [], lineNumbers: [] };
+
+  constructor(private delimiter: CsvDelimiter = ',') {}
+
+  push(chunk: string): CsvTable {
+    let text = chunk;
+    if (this.atStart && text.length > 0) {
+      text = text.replace(/^\uFEFF/, '');
+      this.atStart = false;
+    }
+
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+
+      if (this.inQuotes) {
+        if (this.quotePending) {
+          this.quotePending = false;
+          if (ch === '"') {
+            this.field += '"';
+            continue;
+          }
+          this.inQuotes = false;
+        } else {
+          if (ch === '"') this.quotePending = true;
+          else {
+            this.field += ch;
+            if (ch === '\n') this.line++;
+          }
+          continue;
+        }
+      }
+
+      if (this.skipLF) {
+        this.skipLF = false;
+        if (ch === '\n') continue;
+      }
+
+      if (ch === '"' && !this.fieldStarted) {
+        this.inQuotes = true;
+        this.fieldStarted = true;
+      } else if (ch === this.delimiter) {
+        this.endField();
+      } else if (ch === '\r' || ch === '\n') {
+        this.endRow();
+        this.skipLF = ch === '\r';
+      } else {
+        this.field += ch;
+        this.fieldStarted = true;
+      }
+    }
+
+    return this.take();
+  }
+
+  end(): CsvTable {
+    if (this.inQuotes && !this.quotePending) this.out.unterminatedLine = this.rowLine;
+    this.inQuotes = false;
+    this.quotePending = false;
+    if (this.fieldStarted || this.row.length > 0) this.endRow();
+    return this.take();
+  }
+
+  private endField() {
+    this.row.push(this.field);
+    this.field = '';
+    this.fieldStarted = false;
+  }
+
+  private endRow() {
+    this.endField();
+    this.out.rows.push(this.row);
+    this.out.lineNumbers.push(this.rowLine);
+    this.row = [];
+    this.line++;
+    this.rowLine = this.line;
+  }
+
+  private take(): CsvTable {
+    const done = this.out;
+    this.out = { rows: [], lineNumbers: [] };
+    return done;
+  }
+}
+
+const joinTables = (head: CsvTable, tail: CsvTable): CsvTable => ({
+  rows: head.rows.concat(tail.rows),
+  lineNumbers: head.lineNumbers.concat(tail.lineNumbers),
+  unterminatedLine: tail.unterminatedLine
+});
+
+export const parseCsv = (text: string, delimiter: CsvDelimiter = detectDelimiter(text)): CsvTable => {
+  const parser = new CsvParser(delimiter);
+  return joinTables(parser.push(text), parser.end());
+};
+
+// Rows that came from somewhere other than text (e.g. a spreadsheet) number 1..n
+export const tableFromRows = (rows: string[][]): CsvTable => ({
+  rows,
+  lineNumbers: rows.map((_, i) => i + 1)
+});
+
+export const isBlankRow = (row: string[]) => row.every(cell => !cell.trim());
+
+// Quote only where needed; leading/trailing spaces are quoted so they survive re-import trimming rules
+export const formatCsvCell = (value: string, delimiter: CsvDelimiter = ',') =>
+  value.includes(delimiter) || /["\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const formatCsvRow = (cells: string[], delimiter: CsvDelimiter = ',') =>
+  cells.map(c => formatCsvCell(c, delimiter)).join(delimiter);
+
+// BOM lets Excel open UTF-8 with Chinese text correctly
+export const toCsvText = (header: string[], rows: string[][], delimiter: CsvDelimiter = ',') =>
+  "\uFEFF" + [header, ...rows].map(r => formatCsvRow(r, delimiter)).join('\r\n') + '\r\n';
+
+// Encoding detection: BOM first, then strict UTF-8, else Big5 (Traditional Chinese Excel).
+// A multi-byte character cut off at the end of a sample is not treated as invalid.
+const detectEncoding = (buffer: ArrayBuffer): string => {
+  const view = new DataView(buffer);
+  if (buffer.byteLength >= 3 && view.getUint8(0) === 0xEF && view.getUint8(1) === 0xBB && view.getUint8(2) === 0xBF) return 'utf-8';
+  if (buffer.byteLength >= 2 && view.getUint16(0, true) === 0xFEFF) return 'utf-16le';
+  if (buffer.byteLength >= 2 && view.getUint16(0, false) === 0xFEFF) return 'utf-16be';
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(buffer, { stream: true });
+    return 'utf-8';
+  } catch (e) {
+    return 'big5';
+  }
+};
+
+// TextDecoder drops a leading BOM itself
+export const decodeCsvBuffer = (buffer: ArrayBuffer): string =>
+  new TextDecoder(detectEncoding(buffer)).decode(buffer);
+
+export const readCsvFile = async (file: File): Promise<CsvTable> =>
+  parseCsv(decodeCsvBuffer(await file.arrayBuffer()));
+
+// How a file is decoded and split, settled once from its head and reused while streaming
+export interface CsvSource {
+  encoding: string;
+  delimiter: CsvDelimiter;
+}
+
+// Reads only the head of a file: complete rows for a preview, plus how to stream the rest
+export const sniffCsvFile = async (file: File): Promise<{ source: CsvSource, preview: CsvTable }> => {
+  const whole = file.size <= PREVIEW_BYTES;
+  const head = await file.slice(0, PREVIEW_BYTES).arrayBuffer();
+  const encoding = detectEncoding(head);
+  const text = new TextDecoder(encoding).decode(head, { stream: !whole });
+  const delimiter = detectDelimiter(text);
+  const parser = new CsvParser(delimiter);
+  const rows = parser.push(text);
+  return { source: { encoding, delimiter }, preview: whole ? joinTables(rows, parser.end()) : rows };
+};
+
+// Feeds a file through the parser chunk by chunk; memory use stays flat however large the file is.
+// onRows receives each batch of completed rows and the bytes consumed so far.
+export const streamCsvFile = async (
+  file: File,
+  source: CsvSource,
+  onRows: (table: CsvTable, bytesRead: number) => Promise<void>,
+  signal?: AbortSignal
+) => {
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder(source.encoding);
+  const parser = new CsvParser(source.delimiter);
+  let bytesRead = 0;
+
+  while (true) {
+    if (signal?.aborted) {
+      await reader.cancel();
+      return;
+    }
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytesRead += value.byteLength;
+    await onRows(parser.push(decoder.decode(value, { stream: true })), bytesRead);
+  }
+  await onRows(joinTables(parser.push(decoder.decode()), parser.end()), bytesRead);
+};
@@ -1,8 +1,83 @@
 import Dexie, { Table } from 'dexie';
-import { MasterItem } from '../types';
+import { MasterItem, InventoryRecord, ScanStatus, InventorySession, UserAccount, AuditEntry, MasterDiff, SyncOp, Snapshot, SnapshotReason, RelatedField, RelatedMatch, RelatedRule, CategoryDef, PayloadRule, ResolvedPayload, LookupField } from '../types';
+import { createInitialSession } from './session';
+import type { BackupPayload, RestoreMode } from './backup';
+import { MasterSearchHit, buildSearchTerms, pickCandidates, queryTerms, rankMasterItems } from './search';
+import { ruleKey } from './related';
+import { LOOKUP_FIELDS, parsePayload } from './payload';
+import { DEFAULT_CATEGORIES, compileCategories } from './categories';
+import { ProgressKey, progressKey } from './progress';
+import { diffSortedMaster } from './masterImport';
+
+// Records were kept in localStorage before schema v4
+const LEGACY_RECORDS_KEY = 'zen_records';
+// Before schema v6 user names were a plain list and the app had one shared password
+const LEGACY_USERS_KEY = 'zen_users';
+const LEGACY_AUTH_KEY = 'zen_auth';
+
+// The master import worker opens the database too, and workers have no localStorage
+const hasLocalStorage = () => typeof localStorage !== 'undefined';
+const readSetting = (key: string) => hasLocalStorage() ? localStorage.getItem(key) : null;
+const settingKeys = (): string[] => {
+  if (!hasLocalStorage()) return [];
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) keys.push(localStorage.key(i)!);
+  return keys;
+};
+
+// Set when the device talks to a LAN sync server; local changes are only queued while it is
+export const SYNC_URL_KEY = 'zen_sync_url';
+
+const MAX_SNAPSHOTS = 10;
+export const SNAPSHOT_EVERY_SCANS = 50;
+// Per-device keys that must not travel back in time with a snapshot
+const SNAPSHOT_EXCLUDED_SETTINGS = ['zen_device_id', 'zen_sync_cursor'];
+
+// Search: per-term postings are capped so a very common trigram can't pull in the whole master
+const SEARCH_POSTINGS_LIMIT = 2000;
+const SEARCH_CANDIDATES = 200;
+const SEARCH_RESULTS = 8;
+const MASTER_COPY_BATCH = 2000;
+// A shared VendorPN can match many parts; the picker lists at most this many
+const LOOKUP_CANDIDATES = 50;
+// Related fields with a masterItems index; rules on them that only trim or ignore case skip the full scan
+const RELATED_INDEXED_FIELDS: RelatedField[] = ['VendorPN', 'CustomerPN', 'Description', 'Project'];
+
+// Master rows carry their search terms and progress key for the indexes; callers never see them
+type IndexedMasterItem = MasterItem & { searchTerms?: string[], progressKey?: ProgressKey };
+type Classifier = ReturnType<typeof compileCategories>;
+const withIndexFields = (classify: Classifier) => (item: MasterItem): IndexedMasterItem =>
+  ({ ...item, searchTerms: buildSearchTerms(item), progressKey: progressKey(item, classify(item)) });
+const withoutIndexFields = ({ searchTerms, progressKey, ...item }: IndexedMasterItem): MasterItem => item;
+
+// Legacy names become counter accounts without a PIN; an admin must set one before they can log in
+const legacyUserAccounts = (): UserAccount[] => {
+  try {
+    const saved = readSetting(LEGACY_USERS_KEY);
+    const names = saved ? JSON.parse(saved) : [];
+    if (!Array.isArray(names)) return [];
+    return names
+      .filter((n: unknown): n is string => typeof n === 'string' && n.trim().length > 0)
+      .map(name => ({ name: name.trim(), role: 'counter', salt: '', pinHash: '', createdAt: Date.now() }));
+  } catch (e) {
+    console.error('Legacy users migration failed', e);
+    return [];
+  }
+};
 
 class InventoryDB extends Dexie {
   masterItems!: Table<MasterItem>;
+  records!: Table<InventoryRecord, string>;
+  sessions!: Table<InventorySession, string>;
+  users!: Table<UserAccount, string>;
+  auditLog!: Table<AuditEntry, number>;
+  syncQueue!: Table<SyncOp, number>;
+  snapshots!: Table<Snapshot, number>;
+  categories!: Table<CategoryDef, string>;
+  masterStaging!: Table<MasterItem, string>;
+
+  private scansSinceSnapshot = 0;
+  private scanSnapshotPending = false;
 
   constructor() {
     super('ZenInventoryDB');
@@ -10,59 +85,748 @@ class InventoryDB extends Dexie {
     (this as any).version(3).stores({
       masterItems: 'PartID, Project, Description, VendorPN' 
     });
+
+    // v4: Scan records move out of localStorage into their own table
+    (this as any).version(4).stores({
+      records: 'id, PartID, InventoryDate, Status, scannedBy'
+    }).upgrade((tx: any) => {
+      const saved = readSetting(LEGACY_RECORDS_KEY);
+      if (!saved) return;
+      try {
+        const legacy = JSON.parse(saved);
+        if (Array.isArray(legacy) && legacy.length > 0) {
+          return tx.table('records').bulkPut(legacy);
+        }
+      } catch (e) {
+        console.error('Legacy records migration failed', e);
+      }
+    });
+
+    // v5: Count campaigns. Existing records are adopted by an initial session.
+    (this as any).version(5).stores({
+      sessions: 'id, status, startDate',
+      records: 'id, PartID, InventoryDate, Status, scannedBy, sessionId, [sessionId+PartID], [sessionId+InventoryDate]'
+    }).upgrade(async (tx: any) => {
+      const session = createInitialSession();
+      const first = await tx.table('records').orderBy('InventoryDate').first();
+      if (first) session.startDate = first.InventoryDate;
+      await tx.table('sessions').add(session);
+      await tx.table('records').toCollection().modify({ sessionId: session.id });
+    });
+
+    // v6: Per-user PIN accounts replace the shared password
+    (this as any).version(6).stores({
+      users: 'name, role'
+    }).upgrade((tx: any) => {
+      const accounts = legacyUserAccounts();
+      if (accounts.length > 0) return tx.table('users').bulkPut(accounts);
+    });
+
+    // v7: Append-only audit trail of record edits and deletions
+    (this as any).version(7).stores({
+      auditLog: '++id, timestamp, actor, action, sessionId'
+    });
+
+    // v8: Outbox of changes not yet pushed to the sync server
+    (this as any).version(8).stores({
+      syncQueue: '++id'
+    });
+
+    // v9: Rolling local snapshots for point-in-time restore
+    (this as any).version(9).stores({
+      snapshots: '++id, createdAt'
+    });
+
+    // v10: Tokenised PartID / VendorPN / CustomerPN / Description for fuzzy search
+    (this as any).version(10).stores({
+      masterItems: 'PartID, Project, Description, VendorPN, *searchTerms'
+    }).upgrade((tx: any) => {
+      return tx.table('masterItems').toCollection().modify((item: IndexedMasterItem) => {
+        item.searchTerms = buildSearchTerms(item);
+      });
+    });
+
+    // v11: Progress/report categories move from code into an editable table
+    (this as any).version(11).stores({
+      categories: 'id, order'
+    }).upgrade((tx: any) => tx.table('categories').bulkAdd(DEFAULT_CATEGORIES));
+
+    // v12: Progress stats read category / Class / Location from an index instead of loading
+    // the whole master, and completed parts come from a status index instead of every record
+    (this as any).version(12).stores({
+      masterItems: 'PartID, Project, Description, VendorPN, *searchTerms, progressKey',
+      records: 'id, PartID, InventoryDate, Status, scannedBy, sessionId, [sessionId+PartID], [sessionId+InventoryDate], [sessionId+Status+PartID]'
+    }).upgrade(async (tx: any) => {
+      const classify = compileCategories(await tx.table('categories').toArray());
+      return tx.table('masterItems').toCollection().modify((item: IndexedMasterItem) => {
+        item.progressKey = progressKey(item, classify(item));
+      });
+    });
+
+    // v13: serial lookup for labels that carry only the vendor serial
+    (this as any).version(13).stores({
+      masterItems: 'PartID, Project, Description, VendorPN, VendorSN, *searchTerms, progressKey'
+    });
+
+    // v14: customer part number lookup, the last identifier labels carry without our PartID
+    (this as any).version(14).stores({
+      masterItems: 'PartID, Project, Description, VendorPN, VendorSN, CustomerPN, *searchTerms, progressKey'
+    });
+
+    // v15: replace-mode imports stage the new master here and swap it in only once complete
+    (this as any).version(15).stores({
+      masterStaging: 'PartID'
+    });
+
+    // Fresh database: no upgrade runs, so seed the first session here
+    this.on('populate', (tx: any) => {
+      const session = createInitialSession();
+      tx.table('sessions').add(session);
+      tx.table('categories').bulkAdd(DEFAULT_CATEGORIES);
+
+      const accounts = legacyUserAccounts();
+      if (accounts.length > 0) tx.table('users').bulkPut(accounts);
+
+      const saved = readSetting(LEGACY_RECORDS_KEY);
+      if (!saved) return;
+      try {
+        const legacy = JSON.parse(saved);
+        if (Array.isArray(legacy) && legacy.length > 0) {
+          tx.table('records').bulkPut(legacy.map((r: InventoryRecord) => ({ ...r, sessionId: session.id })));
+        }
+      } catch (e) {
+        console.error('Legacy records migration failed', e);
+      }
+    });
+
+    // Only drop the legacy copy once the upgrade has committed
+    this.on('ready', () => {
+      if (!hasLocalStorage()) return;
+      localStorage.removeItem(LEGACY_RECORDS_KEY);
+      localStorage.removeItem(LEGACY_USERS_KEY);
+      localStorage.removeItem(LEGACY_AUTH_KEY);
+    });
+  }
+
+  // Read on every master write rather than cached, so another tab's category edit is never missed
+  private async getClassifier(): Promise<Classifier> {
+    return compileCategories(await this.getCategories());
   }
 
   async bulkAdd(items: MasterItem[]) {
-    return this.masterItems.bulkPut(items);
+    const classify = await this.getClassifier();
+    return this.masterItems.bulkPut(items.map(withIndexFields(classify)));
   }
 
   async findItem(partId: string): Promise<MasterItem | undefined> {
     return this.masterItems.get(partId);
   }
 
-  // UPDATED LOGIC: Match by Full Description
-  async findRelatedItems(record: { VendorPN?: string, Description?: string }): Promise<MasterItem[]> {
-    // 1. VendorPN Match (Strongest signal)
-    if (record.VendorPN && record.VendorPN !== 'NA' && record.VendorPN.length > 2) {
-       const byVendorPN = await this.masterItems.where('VendorPN').equals(record.VendorPN).toArray();
-       if (byVendorPN.length > 0) return byVendorPN;
+  async findItemsBy(field: LookupField, value: string): Promise<MasterItem[]> {
+    const items = await this.masterItems.where(field).equals(value).limit(LOOKUP_CANDIDATES).toArray();
+    return items.map(withoutIndexFields);
+  }
+
+  // Works out which part a scanned payload refers to: the raw code as a PartID, then the parsed
+  // PartID, then the parsed serial against VendorSN, then the parsed PartID and raw code against
+  // each lookup field. The first lookup with hits gives the candidates.
+  async resolvePayload(raw: string, rules: PayloadRule[]): Promise<ResolvedPayload> {
+    const direct = await this.findItem(raw);
+    if (direct) return { partId: raw, candidates: [direct] };
+
+    const parsed = parsePayload(raw, rules);
+    const label = { quantity: parsed?.quantity, serial: parsed?.serial };
+    const labelled = parsed?.partId ? await this.findItem(parsed.partId) : undefined;
+    if (labelled) return { partId: labelled.PartID, ...label, candidates: [labelled] };
+
+    const lookups: [LookupField, string][] = parsed?.serial ? [['VendorSN', parsed.serial]] : [];
+    for (const value of new Set([parsed?.partId || raw, raw])) {
+      LOOKUP_FIELDS.forEach(field => lookups.push([field, value]));
+    }
+    for (const [field, value] of lookups) {
+      const candidates = await this.findItemsBy(field, value);
+      if (candidates.length > 0) {
+        return { partId: candidates.length === 1 ? candidates[0].PartID : raw, ...label, candidates, matchedBy: field };
+      }
     }
+    // A parsed PartID that resolves nowhere may be a plain code a rule cut short, so a Not Found
+    // record keeps exactly what was scanned
+    return { partId: raw, ...label, candidates: [] };
+  }
+
+  // Rules that compare an indexed field as-is (or ignoring case) look it up; only rules that strip
+  // spaces or dashes need a pass over the master. Each hit is labelled with the highest-priority
+  // rule it satisfies.
+  async findRelatedItems(record: Partial<Pick<MasterItem, RelatedField>>, rules: RelatedRule[]): Promise<RelatedMatch[]> {
+    const active = rules
+      .filter(r => r.enabled && r.fields.length > 0)
+      .map(rule => ({ rule, key: ruleKey(record, rule) }))
+      .filter((r): r is { rule: RelatedRule, key: string } => r.key !== undefined);
+    if (active.length === 0) return [];
 
-    // 2. Full Description Match
-    if (record.Description && record.Description !== 'NA') {
-      const targetDesc = record.Description.toLowerCase().trim();
-      
-      if (targetDesc.length < 2) return [];
-
-      // Filter items that match the FULL description exactly
-      return this.masterItems.filter(item => {
-        const itemDesc = (item.Description || '').toLowerCase().trim();
-        return itemDesc === targetDesc;
-      }).toArray();
+    const found = new Map<string, IndexedMasterItem>();
+    const scanned: typeof active = [];
+    for (const entry of active) {
+      const { stripSpaces, stripDashes, ignoreCase } = entry.rule.normalization;
+      const field = RELATED_INDEXED_FIELDS.find(f => entry.rule.fields.includes(f));
+      if (!field || stripSpaces || stripDashes) {
+        scanned.push(entry);
+        continue;
+      }
+      const value = (record[field] || '').trim();
+      const clause = this.masterItems.where(field);
+      const items = await (ignoreCase ? clause.equalsIgnoreCase(value) : clause.equals(value)).toArray();
+      items.forEach(item => found.set(item.PartID, item));
+    }
+    if (scanned.length > 0) {
+      await this.masterItems.each(item => {
+        if (scanned.some(({ rule, key }) => ruleKey(item, rule) === key)) found.set(item.PartID, item);
+      });
     }
 
-    return [];
+    const matches: RelatedMatch[] = [];
+    found.forEach(item => {
+      const hit = active.find(({ rule, key }) => ruleKey(item, rule) === key);
+      if (hit) matches.push({ item: withoutIndexFields(item), rule: hit.rule });
+    });
+    // List in priority order, best rule first, then by PartID as the master lists them
+    const rank = new Map(active.map((r, i) => [r.rule, i]));
+    return matches.sort((a, b) => rank.get(a.rule)! - rank.get(b.rule)! || (a.item.PartID < b.item.PartID ? -1 : 1));
+  }
+
+  // Candidates come from the search-term index, then every field is scored; trigram overlap
+  // lets a query with a typo still find the part
+  async searchMasterItems(term: string): Promise<MasterSearchHit[]> {
+    if (!term || term.trim().length < 2) return [];
+    const { grams, prefix } = queryTerms(term);
+
+    const postings = await Promise.all(grams.map(g =>
+      this.masterItems.where('searchTerms').equals(g).limit(SEARCH_POSTINGS_LIMIT).primaryKeys()
+    ));
+    if (prefix) {
+      postings.push(await this.masterItems.where('searchTerms').startsWith(prefix).limit(SEARCH_POSTINGS_LIMIT).primaryKeys());
+    }
+
+    const ids = pickCandidates(postings as string[][], SEARCH_CANDIDATES);
+    const items = (await this.masterItems.bulkGet(ids))
+      .filter((i): i is IndexedMasterItem => !!i)
+      .map(withoutIndexFields);
+    return rankMasterItems(items, term, SEARCH_RESULTS);
+  }
+
+  async getAll(): Promise<MasterItem[]> {
+    return (await this.masterItems.toArray()).map(withoutIndexFields);
+  }
+
+  // --- Categories ---
+
+  async getCategories(): Promise<CategoryDef[]> {
+    return this.categories.orderBy('order').toArray();
+  }
+
+  // The editor saves the whole list at once; order follows the array. Every master item is
+  // re-keyed in the same transaction so progress never mixes old and new categories.
+  async saveCategories(defs: CategoryDef[]) {
+    const ordered = defs.map((d, i) => ({ ...d, order: i }));
+    const classify = compileCategories(ordered);
+    return this.transaction('rw', this.categories, this.masterItems, async () => {
+      await this.categories.clear();
+      await this.categories.bulkAdd(ordered);
+      await this.masterItems.toCollection().modify((item: IndexedMasterItem) => {
+        item.progressKey = progressKey(item, classify(item));
+      });
+    });
+  }
+
+  // --- Progress ---
+
+  // Walks the progress index only; 200k items cost a few MB of keys instead of full rows
+  async getMasterProgressKeys(): Promise<Map<string, ProgressKey>> {
+    const keys = new Map<string, ProgressKey>();
+    await this.masterItems.orderBy('progressKey').eachKey((key, cursor) => {
+      keys.set(cursor.primaryKey as string, key as unknown as ProgressKey);
+    });
+    return keys;
+  }
+
+  // PartIDs that count as done: OK, Checked, and Misplaced (found elsewhere)
+  async getCompletedPartIds(sessionId: string): Promise<Set<string>> {
+    const done: ScanStatus[] = ['OK', 'Checked', 'Misplaced'];
+    const keys = await Promise.all(done.map(status => this.records
+      .where('[sessionId+Status+PartID]')
+      .between([sessionId, status, Dexie.minKey], [sessionId, status, Dexie.maxKey])
+      .keys()));
+    return new Set(keys.flat().map(k => (k as unknown as [string, string, string])[2]));
+  }
+
+  // Parts recorded more than once in a session (e.g. by two synced counters), with who scanned them.
+  // Only the duplicated records are loaded; the rest is decided from the index keys.
+  async getDuplicateScans(sessionId: string): Promise<{ partId: string, users: string[] }[]> {
+    const keys = await this.records
+      .where('[sessionId+PartID]')
+      .between([sessionId, Dexie.minKey], [sessionId, Dexie.maxKey])
+      .keys();
+    const seen = new Set<string>();
+    const repeated = new Set<string>();
+    (keys as unknown as [string, string][]).forEach(([, partId]) => {
+      if (seen.has(partId)) repeated.add(partId);
+      seen.add(partId);
+    });
+    if (repeated.size === 0) return [];
+
+    const users = new Map<string, string[]>();
+    const records = await this.records.where('[sessionId+PartID]').anyOf(Array.from(repeated, id => [sessionId, id])).toArray();
+    records.forEach(r => users.set(r.PartID, [...(users.get(r.PartID) || []), r.scannedBy]));
+    return Array.from(users.entries(), ([partId, users]) => ({ partId, users }));
+  }
+
+  async getMasterItems(partIds: string[]): Promise<MasterItem[]> {
+    return (await this.masterItems.bulkGet(partIds))
+      .filter((i): i is IndexedMasterItem => !!i)
+      .map(withoutIndexFields);
+  }
+
+  // Plain substring match for the unscanned browser, limited to one category when given
+  async filterMasterIds(term: string, category?: string): Promise<Set<string>> {
+    const needle = term.toLowerCase();
+    const collection = category
+      ? this.masterItems.where('progressKey').between([category, Dexie.minKey], [category, Dexie.maxKey])
+      : this.masterItems.toCollection();
+    const ids = await collection.filter(item =>
+      item.PartID.toLowerCase().includes(needle) ||
+      (item.Description || '').toLowerCase().includes(needle) ||
+      (item.VendorPN || '').toLowerCase().includes(needle)
+    ).primaryKeys();
+    return new Set(ids as string[]);
+  }
+
+  // --- User Accounts ---
+
+  async getUsers(): Promise<UserAccount[]> {
+    return this.users.orderBy('name').toArray();
+  }
+
+  async getUser(name: string): Promise<UserAccount | undefined> {
+    return this.users.get(name);
+  }
+
+  async putUser(account: UserAccount) {
+    return this.users.put(account);
+  }
+
+  async deleteUser(name: string, actor: string) {
+    const account = await this.users.get(name);
+    if (account?.role === 'admin' && await this.users.where('role').equals('admin').count() <= 1) {
+      throw new Error('至少需保留一位管理員');
+    }
+    await this.takeSnapshot('user_delete', actor);
+    return this.users.delete(name);
+  }
+
+  async hasAdmin(): Promise<boolean> {
+    return (await this.users.where('role').equals('admin').count()) > 0;
+  }
+
+  // --- Inventory Sessions ---
+
+  async getSessions(): Promise<InventorySession[]> {
+    return this.sessions.orderBy('startDate').reverse().toArray();
+  }
+
+  async addSession(session: InventorySession) {
+    return this.transaction('rw', this.sessions, this.syncQueue, async () => {
+      await this.sessions.add(session);
+      await this.enqueue('session', [session.id]);
+    });
   }
 
-  async searchMasterItems(term: string): Promise<MasterItem[]> {
-    if (!term || term.length < 2) return [];
-    const lower = term.toLowerCase();
-    
-    return this.masterItems
-      .filter(item => 
-        item.PartID.toLowerCase().includes(lower) || 
-        (item.VendorPN || '').toLowerCase().includes(lower)
-      )
-      .limit(5)
+  async updateSessionStatus(sessionId: string, status: InventorySession['status'], actor: string) {
+    const changes: Partial<InventorySession> = { status };
+    if (status === 'closed') changes.endDate = Date.now();
+    return this.transaction('rw', this.sessions, this.auditLog, this.syncQueue, async () => {
+      const before = await this.sessions.get(sessionId);
+      await this.sessions.update(sessionId, changes);
+      await this.enqueue('session', [sessionId]);
+      await this.audit({ actor, action: 'session_status', sessionId, recordIds: [], note: `${before?.status} → ${status}` });
+    });
+  }
+
+  // --- Sync Outbox ---
+
+  private async enqueue(kind: SyncOp['kind'], keys: string[]) {
+    if (!readSetting(SYNC_URL_KEY) || keys.length === 0) return;
+    await this.syncQueue.bulkAdd(keys.map(key => ({ kind, key })));
+  }
+
+  async getSyncQueue(): Promise<SyncOp[]> {
+    return this.syncQueue.toArray();
+  }
+
+  // Only drop what was pushed; ops queued during the request stay for the next round
+  async clearSyncQueue(upToId: number) {
+    return this.syncQueue.where(':id').belowOrEqual(upToId).delete();
+  }
+
+  // Joining a server: everything on this device has to be pushed once
+  async enqueueAll() {
+    return this.transaction('rw', this.sessions, this.records, this.syncQueue, async () => {
+      await this.syncQueue.clear();
+      await this.enqueue('session', (await this.sessions.toCollection().primaryKeys()) as string[]);
+      await this.enqueue('record', (await this.records.toCollection().primaryKeys()) as string[]);
+    });
+  }
+
+  async clearSyncQueueAll() {
+    return this.syncQueue.clear();
+  }
+
+  // Teammates' changes are written as-is: not queued again and not audited on this device.
+  // Rows with local changes still waiting to be pushed keep the local version.
+  async applyRemoteChanges(sessions: InventorySession[], records: InventoryRecord[], deletedIds: string[]) {
+    return this.transaction('rw', this.sessions, this.records, this.syncQueue, async () => {
+      const pending = new Set((await this.syncQueue.toArray()).map(op => op.key));
+      await this.sessions.bulkPut(sessions.filter(s => !pending.has(s.id)));
+      await this.records.bulkPut(records.filter(r => !pending.has(r.id)));
+      await this.records.bulkDelete(deletedIds.filter(id => !pending.has(id)));
+    });
+  }
+
+  // --- Snapshots ---
+
+  async takeSnapshot(reason: SnapshotReason, actor: string) {
+    const settings: Record<string, string> = {};
+    settingKeys()
+      .filter(key => key.startsWith('zen_') && !SNAPSHOT_EXCLUDED_SETTINGS.includes(key))
+      .forEach(key => { settings[key] = readSetting(key) || ''; });
+
+    return this.transaction('rw', this.sessions, this.records, this.users, this.snapshots, async () => {
+      const sessions = await this.sessions.toArray();
+      const records = await this.records.toArray();
+      const users = await this.users.toArray();
+      await this.snapshots.add({
+        createdAt: Date.now(), reason, actor, settings, sessions, records, users,
+        counts: { records: records.length, sessions: sessions.length, users: users.length }
+      });
+
+      // Rolling window: drop the oldest beyond the limit
+      const excess = (await this.snapshots.count()) - MAX_SNAPSHOTS;
+      if (excess > 0) {
+        const oldest = await this.snapshots.orderBy('createdAt').limit(excess).primaryKeys();
+        await this.snapshots.bulkDelete(oldest);
+      }
+      this.scansSinceSnapshot = 0;
+    });
+  }
+
+  // The copy reads every table, so it runs after the scan has returned rather than on its await
+  // path; a failed periodic snapshot is only logged, the next scan tries again
+  private noteScan(actor: string, count = 1) {
+    this.scansSinceSnapshot += count;
+    if (this.scansSinceSnapshot < SNAPSHOT_EVERY_SCANS || this.scanSnapshotPending) return;
+    this.scanSnapshotPending = true;
+    setTimeout(() => {
+      this.takeSnapshot('scans', actor)
+        .catch(console.error)
+        .finally(() => { this.scanSnapshotPending = false; });
+    }, 0);
+  }
+
+  async getSnapshots(): Promise<Snapshot[]> {
+    return this.snapshots.orderBy('createdAt').reverse().toArray();
+  }
+
+  // The current state is snapshotted first, so restoring is itself undoable
+  async restoreSnapshot(id: number, actor: string) {
+    const snapshot = await this.snapshots.get(id);
+    if (!snapshot) throw new Error('找不到快照');
+    await this.takeSnapshot('restore', actor);
+
+    await this.transaction('rw', [this.sessions, this.records, this.users, this.auditLog, this.syncQueue], async () => {
+      await this.enqueue('record', (await this.records.toCollection().primaryKeys()) as string[]);
+      await this.sessions.clear();
+      await this.records.clear();
+      await this.users.clear();
+      await this.sessions.bulkPut(snapshot.sessions);
+      await this.records.bulkPut(snapshot.records);
+      await this.users.bulkPut(snapshot.users);
+      await this.enqueue('session', snapshot.sessions.map(s => s.id));
+      await this.enqueue('record', snapshot.records.map(r => r.id));
+      await this.audit({
+        actor, action: 'restore', recordIds: [],
+        note: `snapshot ${new Date(snapshot.createdAt).toISOString()} (${snapshot.counts.records} records)`
+      });
+    });
+
+    if (hasLocalStorage()) Object.entries(snapshot.settings).forEach(([key, value]) => localStorage.setItem(key, value));
+  }
+
+  // --- Audit Log ---
+
+  private async audit(entry: Omit<AuditEntry, 'id' | 'timestamp'>) {
+    return this.auditLog.add({ ...entry, timestamp: Date.now() });
+  }
+
+  async getAuditLog(): Promise<AuditEntry[]> {
+    return this.auditLog.orderBy('timestamp').reverse().toArray();
+  }
+
+  async clearMasterData(actor: string) {
+    return this.transaction('rw', this.masterItems, this.auditLog, async () => {
+      const count = await this.masterItems.count();
+      await this.masterItems.clear();
+      await this.audit({ actor, action: 'master_clear', recordIds: [], note: `${count} master items` });
+    });
+  }
+
+  // Replace-mode imports write batches here while the file streams in; the live master is only
+  // touched by commitMasterStaging, so a failed or cancelled import leaves it exactly as it was.
+  // Rows of a master table in PartID order, read a page at a time
+  private async *masterPages(table: Table<MasterItem>): AsyncGenerator<MasterItem> {
+    let lastKey = '';
+    while (true) {
+      const page = await table.where('PartID').above(lastKey).limit(MASTER_COPY_BATCH).toArray();
+      if (page.length === 0) return;
+      yield* page.map(withoutIndexFields);
+      lastKey = page[page.length - 1].PartID;
+    }
+  }
+
+  async diffMasterStaging(): Promise<MasterDiff> {
+    return diffSortedMaster(this.masterPages(this.masterItems), this.masterPages(this.masterStaging));
+  }
+
+  async stageMasterItems(items: MasterItem[]) {
+    return this.masterStaging.bulkPut(items);
+  }
+
+  async clearMasterStaging() {
+    return this.masterStaging.clear();
+  }
+
+  // One transaction: the master becomes the staged rows, or stays as it was if anything fails
+  async commitMasterStaging(actor: string) {
+    const classify = await this.getClassifier();
+    return this.transaction('rw', this.masterItems, this.masterStaging, this.auditLog, async () => {
+      const staged = new Set((await this.masterStaging.toCollection().primaryKeys()) as string[]);
+      const removed = (await this.masterItems.toCollection().primaryKeys()).filter(id => !staged.has(id as string)).length;
+      await this.masterItems.clear();
+
+      // Copied in pages so the whole staged master is never held at once
+      let lastKey = '';
+      while (true) {
+        const page = await this.masterStaging.where('PartID').above(lastKey).limit(MASTER_COPY_BATCH).toArray();
+        if (page.length === 0) break;
+        await this.masterItems.bulkPut(page.map(withIndexFields(classify)));
+        lastKey = page[page.length - 1].PartID;
+      }
+      await this.masterStaging.clear();
+
+      await this.audit({
+        actor,
+        action: 'master_import',
+        recordIds: [],
+        note: `${staged.size} written / ${removed} removed master items`
+      });
+    });
+  }
+
+  // All-or-nothing: a failure part way leaves the previous master untouched
+  async applyMasterDiff(diff: MasterDiff, actor: string) {
+    const classify = await this.getClassifier();
+    return this.transaction('rw', this.masterItems, this.auditLog, async () => {
+      await this.masterItems.bulkDelete(diff.removed.map(i => i.PartID));
+      await this.masterItems.bulkPut([...diff.added, ...diff.modified.map(m => m.after)].map(withIndexFields(classify)));
+      await this.audit({
+        actor,
+        action: 'master_sync',
+        recordIds: [],
+        note: `+${diff.added.length} / -${diff.removed.length} / ~${diff.modified.length} master items`
+      });
+    });
+  }
+
+  // Closed sessions are read-only; every record write goes through this guard
+  private async assertWritable(sessionId: string) {
+    const session = await this.sessions.get(sessionId);
+    if (!session) throw new Error('找不到盤點場次');
+    if (session.status === 'closed') throw new Error(`場次「${session.name}」已結束，無法修改紀錄`);
+    return session;
+  }
+
+  // --- Scan Records ---
+
+  // Scanning additionally requires the session not to be frozen
+  private async assertScannable(sessionId: string) {
+    const session = await this.assertWritable(sessionId);
+    if (session.status !== 'open') throw new Error(`場次「${session.name}」已凍結，暫停掃描`);
+  }
+
+  async addRecord(record: InventoryRecord) {
+    await this.assertScannable(record.sessionId);
+    await this.transaction('rw', this.records, this.syncQueue, async () => {
+      await this.records.add(record);
+      await this.enqueue('record', [record.id]);
+    });
+    this.noteScan(record.scannedBy);
+  }
+
+  // Batch camera scans are written together; a part recorded in the meantime (e.g. by a synced
+  // teammate) is skipped rather than duplicated. Returns the records actually added.
+  async addRecords(sessionId: string, records: InventoryRecord[], actor: string): Promise<InventoryRecord[]> {
+    await this.assertScannable(sessionId);
+    const added = await this.transaction('rw', this.records, this.syncQueue, async () => {
+      const keys = await this.records.where('[sessionId+PartID]').anyOf(records.map(r => [sessionId, r.PartID])).keys();
+      const taken = new Set((keys as unknown as [string, string][]).map(k => k[1]));
+      const fresh = records.filter(r => !taken.has(r.PartID));
+      await this.records.bulkAdd(fresh);
+      await this.enqueue('record', fresh.map(r => r.id));
+      return fresh;
+    });
+    this.noteScan(actor, added.length);
+    return added;
+  }
+
+  async addRecordQuantity(record: InventoryRecord, delta: number, actor: string): Promise<InventoryRecord> {
+    await this.assertScannable(record.sessionId);
+    const updated = await this.transaction('rw', this.records, this.auditLog, this.syncQueue, async () => {
+      const current = (await this.records.get(record.id)) || record;
+      const updated = { ...current, Quantity: (current.Quantity ?? 1) + delta, InventoryDate: Date.now() };
+      await this.records.put(updated);
+      await this.enqueue('record', [record.id]);
+      await this.audit({
+        actor, action: 'quantity_change', sessionId: record.sessionId, recordIds: [record.id],
+        before: [{ id: record.id, PartID: current.PartID, Quantity: current.Quantity ?? 1 }],
+        after: [{ id: record.id, PartID: current.PartID, Quantity: updated.Quantity }]
+      });
+      return updated;
+    });
+    this.noteScan(actor);
+    return updated;
+  }
+
+  // Merge of a teammate's CSV: new rows are added, resolved conflicts overwrite the existing
+  // record in place (keeping its id). The summary note is what the audit log shows.
+  async mergeRecords(sessionId: string, added: InventoryRecord[], replaced: InventoryRecord[], summary: string, actor: string) {
+    await this.assertWritable(sessionId);
+    await this.takeSnapshot('merge', actor);
+    const tagged = [...added, ...replaced].map(r => ({ ...r, sessionId }));
+    return this.transaction('rw', this.records, this.auditLog, this.syncQueue, async () => {
+      const before = (await this.records.bulkGet(replaced.map(r => r.id))).filter((r): r is InventoryRecord => !!r);
+      await this.records.bulkPut(tagged);
+      await this.enqueue('record', tagged.map(r => r.id));
+      await this.audit({ actor, action: 'merge', sessionId, recordIds: tagged.map(r => r.id), before, after: tagged, note: summary });
+    });
+  }
+
+  async findRecordByPartId(sessionId: string, partId: string): Promise<InventoryRecord | undefined> {
+    return this.records.where('[sessionId+PartID]').equals([sessionId, partId]).first();
+  }
+
+  // Newest first, same order the scan list was kept in before
+  async getAllRecords(sessionId: string): Promise<InventoryRecord[]> {
+    return this.records
+      .where('[sessionId+InventoryDate]')
+      .between([sessionId, Dexie.minKey], [sessionId, Dexie.maxKey])
+      .reverse()
       .toArray();
   }
 
-  async clearMasterData() {
-    return this.masterItems.clear();
+  async getRecentRecords(sessionId: string, limit: number): Promise<InventoryRecord[]> {
+    return this.records
+      .where('[sessionId+InventoryDate]')
+      .between([sessionId, Dexie.minKey], [sessionId, Dexie.maxKey])
+      .reverse()
+      .limit(limit)
+      .toArray();
   }
 
-  async getAll(): Promise<MasterItem[]> {
-    return this.masterItems.toArray();
+  async getScannedPartIds(sessionId: string): Promise<Set<string>> {
+    const keys = await this.records
+      .where('[sessionId+PartID]')
+      .between([sessionId, Dexie.minKey], [sessionId, Dexie.maxKey])
+      .keys();
+    return new Set((keys as unknown as [string, string][]).map(k => k[1]));
+  }
+
+  async countRecords(sessionId: string): Promise<number> {
+    return this.records.where('sessionId').equals(sessionId).count();
+  }
+
+  async deleteRecords(sessionId: string, ids: string[], actor: string) {
+    await this.assertWritable(sessionId);
+    await this.takeSnapshot('delete', actor);
+    return this.transaction('rw', this.records, this.auditLog, this.syncQueue, async () => {
+      const before = (await this.records.bulkGet(ids)).filter((r): r is InventoryRecord => !!r);
+      await this.records.bulkDelete(ids);
+      await this.enqueue('record', ids);
+      await this.audit({ actor, action: 'delete', sessionId, recordIds: ids, before });
+    });
+  }
+
+  async updateRecordsStatus(sessionId: string, ids: string[], status: ScanStatus, actor: string) {
+    await this.assertWritable(sessionId);
+    return this.transaction('rw', this.records, this.auditLog, this.syncQueue, async () => {
+      const current = (await this.records.bulkGet(ids)).filter((r): r is InventoryRecord => !!r);
+      await this.records.where('id').anyOf(ids).modify({ Status: status });
+      await this.enqueue('record', ids);
+      await this.audit({
+        actor, action: 'status_change', sessionId, recordIds: ids,
+        before: current.map(r => ({ id: r.id, PartID: r.PartID, Status: r.Status })),
+        after: current.map(r => ({ id: r.id, PartID: r.PartID, Status: status }))
+      });
+    });
+  }
+
+  // Whole-device restore in one transaction. 'replace' rebuilds every table from the backup
+  // (master only when the backup carries one); 'merge' upserts by key and keeps local-only rows.
+  // Accounts are never downgraded: a backup copy without a PIN does not overwrite a local one.
+  async restoreBackup(payload: BackupPayload, mode: RestoreMode, actor: string) {
+    if (mode === 'replace') {
+      if (payload.sessions.length === 0) throw new Error('此備份不含場次資料，只能以合併方式還原');
+      if (!payload.users.some(u => u.role === 'admin' && u.pinHash)) throw new Error('備份中沒有可登入的管理員，無法全部取代');
+    }
+    await this.takeSnapshot('restore', actor);
+    const classify = await this.getClassifier();
+    return this.transaction('rw', [this.sessions, this.records, this.masterItems, this.users, this.auditLog, this.syncQueue], async () => {
+      const recordsBefore = await this.records.count();
+      const localUsers = new Map((await this.users.toArray()).map(u => [u.name, u]));
+      const users = payload.users.filter(u => u.pinHash || !localUsers.get(u.name)?.pinHash);
+
+      if (mode === 'replace') {
+        const removed = (await this.records.toCollection().primaryKeys()) as string[];
+        await this.enqueue('record', removed);
+        await this.sessions.clear();
+        await this.records.clear();
+        await this.users.clear();
+        if (payload.master) await this.masterItems.clear();
+        await this.users.bulkPut(payload.users);
+      } else {
+        await this.users.bulkPut(users);
+      }
+
+      await this.sessions.bulkPut(payload.sessions);
+      await this.records.bulkPut(payload.records);
+      if (payload.master) await this.masterItems.bulkPut(payload.master.map(withIndexFields(classify)));
+      await this.enqueue('session', payload.sessions.map(s => s.id));
+      await this.enqueue('record', payload.records.map(r => r.id));
+
+      await this.audit({
+        actor, action: 'restore', recordIds: [],
+        note: `${mode}: ${recordsBefore} → ${await this.records.count()} records, ${payload.sessions.length} sessions` +
+          (payload.master ? `, ${payload.master.length} master items` : '')
+      });
+    });
+  }
+
+  async clearRecords(sessionId: string, actor: string) {
+    await this.assertWritable(sessionId);
+    await this.takeSnapshot('clear', actor);
+    return this.transaction('rw', this.records, this.auditLog, this.syncQueue, async () => {
+      const before = await this.records.where('sessionId').equals(sessionId).toArray();
+      await this.records.where('sessionId').equals(sessionId).delete();
+      await this.enqueue('record', before.map(r => r.id));
+      await this.audit({ actor, action: 'clear', sessionId, recordIds: before.map(r => r.id), before });
+    });
   }
 }
 
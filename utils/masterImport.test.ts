@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { MasterItem } from '../types';
+import { MasterRowValidator, diffSortedMaster, mapMasterRow } from './masterImport';
+
+const MAPPING = { PartID: 0, Description: 1, Location: 2 };
+
+describe('mapMasterRow', () => {
+  it('folds extra cells back into Description with the source delimiter', () => {
+    expect(mapMasterRow(['P-1', 'Cable', ' 2m', 'A-01'], MAPPING, 3).Description).toBe('Cable, 2m');
+    expect(mapMasterRow(['P-1', 'Cable', ' 2m', 'A-01'], MAPPING, 3, ';').Description).toBe('Cable; 2m');
+    expect(mapMasterRow(['P-1', 'Cable', '2m', 'A-01'], MAPPING, 3, '\t').Description).toBe('Cable\t2m');
+  });
+
+  it('shifts the columns right of Description past the extra cells', () => {
+    expect(mapMasterRow(['P-1', 'Cable', ' 2m', 'A-01'], MAPPING, 3).Location).toBe('A-01');
+  });
+});
+
+describe('MasterRowValidator', () => {
+  it('rejects short rows and accepts full ones', () => {
+    const validator = new MasterRowValidator(3, MAPPING, ';');
+
+    expect(validator.add(['P-1', 'Cable'], 2)).toBeUndefined();
+    expect(validator.add(['P-2', 'Cable', ''], 3)?.PartID).toBe('P-2');
+    expect(validator.stats).toEqual({ total: 2, success: 1, errors: 1 });
+  });
+});
+
+describe('diffSortedMaster', () => {
+  const item = (PartID: string, Description = ''): MasterItem =>
+    ({ PartID, Description, Project: '', Class: '', Location: '', Vendor: '', VendorPN: '', VendorSN: '', CustomerPN: '' });
+  async function* pages(items: MasterItem[]) {
+    yield* items;
+  }
+
+  it('walks both sides in PartID order and keeps only the differences', async () => {
+    const current = [item('A'), item('B', 'old'), item('C'), item('E')];
+    const incoming = [item('B', 'new'), item('C'), item('D'), item('F')];
+    const diff = await diffSortedMaster(pages(current), pages(incoming));
+
+    expect(diff.added.map(i => i.PartID)).toEqual(['D', 'F']);
+    expect(diff.removed.map(i => i.PartID)).toEqual(['A', 'E']);
+    expect(diff.modified.map(m => [m.before.PartID, m.changes])).toEqual([['B', [{ field: 'Description', before: 'old', after: 'new' }]]]);
+    expect(diff.unchanged).toBe(1);
+  });
+
+  it('treats an empty master as all added', async () => {
+    const diff = await diffSortedMaster(pages([]), pages([item('A')]));
+    expect(diff).toEqual({ added: [item('A')], removed: [], modified: [], unchanged: 0 });
+  });
+});
@@ -0,0 +1,241 @@
+import { MasterItem, CsvImportStats, CsvImportError, MasterDiff, MasterFieldChange } from '../types';
+import { CsvSource, isBlankRow } from './csv';
+
+export type MasterField = keyof MasterItem;
+
+// Source column index per MasterItem field; unmapped fields are left blank
+export type ColumnMapping = Partial<Record<MasterField, number>>;
+
+// 'replace' clears the master first; 'sync' previews and applies only the differences
+export type MasterImportMode = 'replace' | 'sync';
+
+export const MASTER_FIELDS: { field: MasterField, label: string, required?: boolean }[] = [
+  { field: 'PartID', label: '料號 (PartID)', required: true },
+  { field: 'VendorSN', label: '廠商序號 (VendorSN)' },
+  { field: 'Project', label: '專案 (Project)' },
+  { field: 'Class', label: '類別 (Class)' },
+  { field: 'Location', label: '儲位 (Location)' },
+  { field: 'Vendor', label: '廠商 (Vendor)' },
+  { field: 'VendorPN', label: '廠商料號 (VendorPN)' },
+  { field: 'CustomerPN', label: '客戶料號 (CustomerPN)' },
+  { field: 'Description', label: '品名 (Description)' },
+  { field: 'ExpectedQty', label: '帳面數量 (Qty)' }
+];
+
+// Header names recognised per field, compared after lowercasing and dropping spaces/underscores
+const FIELD_ALIASES: Record<MasterField, string[]> = {
+  PartID: ['partid', 'partno', 'part#', 'assetid', '料號', '財產編號'],
+  VendorSN: ['vendorsn', 'sn', 'serialno', 'serialnumber', '序號', '廠商序號'],
+  Project: ['project', 'projectcode', '專案'],
+  Class: ['class', 'category', '類別'],
+  Location: ['location', 'loc', 'bin', '儲位', '位置'],
+  Vendor: ['vendor', 'supplier', '廠商', '供應商'],
+  VendorPN: ['vendorpn', 'mfgpn', 'mpn', '廠商料號'],
+  CustomerPN: ['customerpn', 'custpn', '客戶料號'],
+  Description: ['description', 'desc', 'name', '品名', '說明'],
+  ExpectedQty: ['qty', 'quantity', 'expectedqty', '數量', '帳面數量']
+};
+
+// Column order of the original fixed-layout ERP export
+const LEGACY_MAPPING: ColumnMapping = {
+  PartID: 0, VendorSN: 1, Project: 2, Class: 3, Location: 4,
+  Vendor: 5, VendorPN: 6, CustomerPN: 7, Description: 8
+};
+
+const MAPPINGS_KEY = 'zen_master_mappings';
+const HEADER_SCAN_ROWS = 10;
+
+const normalizeHeader = (h: string) => h.replace(/^\uFEFF/, '').toLowerCase().replace(/[\s_\-.]/g, '');
+
+const matchField = (header: string): MasterField | undefined => {
+  const h = normalizeHeader(header);
+  if (!h) return undefined;
+  return MASTER_FIELDS.find(f => FIELD_ALIASES[f.field].includes(h))?.field;
+};
+
+// Blank or non-numeric cells mean "no quantity", not zero
+export const parseQuantity = (value?: string): number | undefined => {
+  if (!value || !value.trim()) return undefined;
+  const n = Number(value.trim());
+  return Number.isFinite(n) ? n : undefined;
+};
+
+// First row among the leading few that names at least two known fields (ERP exports often start with a title line)
+export const detectHeaderRow = (rows: string[][]): number => {
+  const limit = Math.min(rows.length, HEADER_SCAN_ROWS);
+  for (let i = 0; i < limit; i++) {
+    const hits = rows[i].filter(cell => matchField(cell)).length;
+    if (hits >= 2) return i;
+  }
+  return 0;
+};
+
+// Same headers in the same order identify the same export layout
+export const headerSignature = (header: string[]) => header.map(normalizeHeader).join('|');
+
+const loadSavedMappings = (): Record<string, ColumnMapping> => {
+  try {
+    return JSON.parse(localStorage.getItem(MAPPINGS_KEY) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+export const saveMapping = (header: string[], mapping: ColumnMapping) => {
+  const saved = loadSavedMappings();
+  saved[headerSignature(header)] = mapping;
+  localStorage.setItem(MAPPINGS_KEY, JSON.stringify(saved));
+};
+
+// Remembered mapping for this layout, else header-name matching, else the legacy fixed order
+export const suggestMapping = (header: string[]): { mapping: ColumnMapping, remembered: boolean } => {
+  const saved = loadSavedMappings()[headerSignature(header)];
+  if (saved) return { mapping: saved, remembered: true };
+
+  const mapping: ColumnMapping = {};
+  header.forEach((h, i) => {
+    const field = matchField(h);
+    if (field && mapping[field] === undefined) mapping[field] = i;
+  });
+  if (Object.keys(mapping).length > 0) return { mapping, remembered: false };
+
+  const legacy: ColumnMapping = {};
+  (Object.keys(LEGACY_MAPPING) as MasterField[]).forEach(f => {
+    if (LEGACY_MAPPING[f]! < header.length) legacy[f] = LEGACY_MAPPING[f];
+  });
+  return { mapping: legacy, remembered: false };
+};
+
+export const missingRequiredFields = (mapping: ColumnMapping) =>
+  MASTER_FIELDS.filter(f => f.required && mapping[f.field] === undefined);
+
+// Unquoted delimiters inside Description produce extra cells; fold them back into Description
+// and shift every column to its right accordingly.
+export const mapMasterRow = (cols: string[], mapping: ColumnMapping, headerLength: number, delimiter = ','): MasterItem => {
+  const extra = Math.max(0, cols.length - headerLength);
+  const descIndex = mapping.Description;
+
+  const cell = (field: MasterField) => {
+    const index = mapping[field];
+    if (index === undefined) return '';
+    if (field === 'Description' && extra > 0) return cols.slice(index, index + extra + 1).join(delimiter).trim();
+    const shifted = descIndex !== undefined && index > descIndex ? index + extra : index;
+    return (cols[shifted] || '').trim();
+  };
+
+  return {
+    PartID: cell('PartID'),
+    VendorSN: cell('VendorSN'),
+    Project: cell('Project'),
+    Class: cell('Class'),
+    Location: cell('Location'),
+    Vendor: cell('Vendor'),
+    VendorPN: cell('VendorPN'),
+    CustomerPN: cell('CustomerPN'),
+    Description: cell('Description'),
+    ExpectedQty: mapping.ExpectedQty !== undefined ? parseQuantity(cell('ExpectedQty')) : undefined
+  };
+};
+
+// Validates data rows one at a time as they stream in. Rejected rows are reported, never imported;
+// for duplicate PartIDs the first occurrence wins.
+export class MasterRowValidator {
+  readonly errors: CsvImportError[] = [];
+  private firstSeen = new Map<string, number>();
+  private total = 0;
+  private success = 0;
+
+  // delimiter: what the file splits cells on, put back between the Description pieces
+  constructor(private headerLength: number, private mapping: ColumnMapping, private delimiter = ',') {}
+
+  // unterminated: the row swallowed the rest of the file after an unclosed quote
+  add(cols: string[], lineNo: number, unterminated = false): MasterItem | undefined {
+    if (isBlankRow(cols)) return undefined;
+    this.total++;
+
+    if (unterminated) {
+      this.errors.push({ line: lineNo, partId: '', reason: '引號不成對' });
+      return undefined;
+    }
+
+    const item = mapMasterRow(cols, this.mapping, this.headerLength, this.delimiter);
+
+    // Extra cells are only expected when they can be folded back into Description
+    if (cols.length < this.headerLength || (cols.length > this.headerLength && this.mapping.Description === undefined)) {
+      this.errors.push({ line: lineNo, partId: item.PartID, reason: `欄位數不符（預期 ${this.headerLength}，實際 ${cols.length}）` });
+      return undefined;
+    }
+    if (!item.PartID) {
+      this.errors.push({ line: lineNo, partId: '', reason: '缺少 PartID' });
+      return undefined;
+    }
+    const seenAt = this.firstSeen.get(item.PartID);
+    if (seenAt !== undefined) {
+      this.errors.push({ line: lineNo, partId: item.PartID, reason: `PartID 重複（首次出現於第 ${seenAt} 行）` });
+      return undefined;
+    }
+
+    this.firstSeen.set(item.PartID, lineNo);
+    this.success++;
+    return item;
+  }
+
+  get stats(): CsvImportStats {
+    return { total: this.total, success: this.success, errors: this.errors.length };
+  }
+}
+
+// Messages between AdminDashboard and masterImport.worker
+export type MasterImportRequest =
+  | {
+      type: 'start';
+      file: File;
+      source?: CsvSource; // Absent for .xlsx
+      headerRow: number;
+      mapping: ColumnMapping;
+      mode: MasterImportMode;
+      actor: string;
+    }
+  | { type: 'cancel' };
+
+export type MasterImportMessage =
+  | { type: 'progress', loaded: number, total: number, processed: number }
+  | { type: 'done', stats: CsvImportStats, errors: CsvImportError[], written: number, diff?: MasterDiff }
+  | { type: 'cancelled', stats: CsvImportStats, errors: CsvImportError[] }
+  | { type: 'error', message: string };
+
+// Blank and missing values compare equal so optional columns don't show as changes
+const fieldValue = (item: MasterItem, field: MasterField) => {
+  const v = item[field];
+  return v === undefined || v === null ? '' : String(v);
+};
+
+// Both sides must come in PartID order (as IndexedDB pages them), so the master and the file are
+// walked side by side and only the differences are kept in memory
+export const diffSortedMaster = async (current: AsyncIterable<MasterItem>, incoming: AsyncIterable<MasterItem>): Promise<MasterDiff> => {
+  const diff: MasterDiff = { added: [], removed: [], modified: [], unchanged: 0 };
+  const currentIt = current[Symbol.asyncIterator]();
+  const incomingIt = incoming[Symbol.asyncIterator]();
+  let before = await currentIt.next();
+  let after = await incomingIt.next();
+
+  while (!before.done || !after.done) {
+    if (after.done || (!before.done && before.value.PartID < after.value.PartID)) {
+      diff.removed.push(before.value);
+      before = await currentIt.next();
+    } else if (before.done || after.value.PartID < before.value.PartID) {
+      diff.added.push(after.value);
+      after = await incomingIt.next();
+    } else {
+      const [b, a] = [before.value, after.value];
+      const changes: MasterFieldChange[] = MASTER_FIELDS
+        .filter(f => fieldValue(b, f.field) !== fieldValue(a, f.field))
+        .map(f => ({ field: f.field, before: fieldValue(b, f.field), after: fieldValue(a, f.field) }));
+      if (changes.length > 0) diff.modified.push({ before: b, after: a, changes });
+      else diff.unchanged++;
+      before = await currentIt.next();
+      after = await incomingIt.next();
+    }
+  }
+  return diff;
+};
@@ -0,0 +1,102 @@
+// Parses a master file and writes it to IndexedDB off the main thread, so 200k+ row
+// imports neither freeze the UI nor hold the whole file in memory.
+import { MasterDiff, MasterItem } from '../types';
+import { db } from './db';
+import { CsvTable, streamCsvFile } from './csv';
+import { MasterImportMessage, MasterImportRequest, MasterRowValidator } from './masterImport';
+import { readXlsxRows } from './spreadsheet';
+
+const BATCH_SIZE = 1000;
+
+let controller: AbortController | null = null;
+
+const post = (message: MasterImportMessage) => self.postMessage(message);
+
+const runImport = async (request: Extract<MasterImportRequest, { type: 'start' }>) => {
+  const { file, source, headerRow, mapping, mode, actor } = request;
+  controller = new AbortController();
+  const { signal } = controller;
+
+  let validator = null as MasterRowValidator | null;
+  let rowIndex = 0;
+  let written = 0;
+  let processed = 0;
+  let batch: MasterItem[] = [];
+
+  const flush = async () => {
+    if (batch.length === 0) return;
+    await db.stageMasterItems(batch);
+    written += batch.length;
+    batch = [];
+  };
+
+  const handleRows = async (table: CsvTable) => {
+    for (let i = 0; i < table.rows.length; i++, rowIndex++) {
+      if (rowIndex < headerRow) continue;
+      if (rowIndex === headerRow) {
+        validator = new MasterRowValidator(table.rows[i].length, mapping, source?.delimiter);
+        continue;
+      }
+      const lineNo = table.lineNumbers[i];
+      const item = validator!.add(table.rows[i], lineNo, lineNo === table.unterminatedLine);
+      if (!item) continue;
+      processed++;
+
+      batch.push(item);
+      if (batch.length >= BATCH_SIZE) await flush();
+    }
+  };
+
+  // Both modes stage the file: replace swaps it in, sync diffs it against the master page by page.
+  // Clearing first drops the leftovers of an import that crashed part way.
+  await db.clearMasterStaging();
+
+  if (source) {
+    await streamCsvFile(file, source, async (table, bytesRead) => {
+      await handleRows(table);
+      post({ type: 'progress', loaded: bytesRead, total: file.size, processed });
+    }, signal);
+  } else {
+    // ExcelJS cannot stream in the browser; the sheet is loaded whole, then handled in slices
+    const rows = await readXlsxRows(file);
+    for (let start = 0; start < rows.length && !signal.aborted; start += BATCH_SIZE) {
+      const slice = rows.slice(start, start + BATCH_SIZE);
+      await handleRows({ rows: slice, lineNumbers: slice.map((_, i) => start + i + 1) });
+      post({ type: 'progress', loaded: Math.min(start + BATCH_SIZE, rows.length), total: rows.length, processed });
+    }
+  }
+
+  const report = validator
+    ? { stats: validator.stats, errors: validator.errors }
+    : { stats: { total: 0, success: 0, errors: 0 }, errors: [] };
+
+  // Cancelled, or nothing valid in the file: leave the master exactly as it was
+  if (signal.aborted || report.stats.success === 0) {
+    await db.clearMasterStaging();
+    if (signal.aborted) post({ type: 'cancelled', ...report });
+    else post({ type: 'done', ...report, written: 0 });
+    return;
+  }
+
+  await flush();
+  let diff: MasterDiff | undefined;
+  if (mode === 'replace') {
+    await db.commitMasterStaging(actor);
+  } else {
+    diff = await db.diffMasterStaging();
+    await db.clearMasterStaging();
+  }
+  post({ type: 'done', ...report, written, diff });
+};
+
+self.addEventListener('message', (e: MessageEvent<MasterImportRequest>) => {
+  if (e.data.type === 'cancel') {
+    controller?.abort();
+    return;
+  }
+  runImport(e.data).catch(err => {
+    console.error(err);
+    db.clearMasterStaging().catch(console.error);
+    post({ type: 'error', message: err?.message || String(err) });
+  });
+});
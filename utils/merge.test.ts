@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { InventoryRecord } from '../types';
+import { CsvDelimiter, parseCsv } from './csv';
+import { classifyMerge, parseScanCsv } from './merge';
+import { SCANNED_REPORT_HEADER, formatReportDate, parseReportDate, reportCsvText, scannedReportRow } from './spreadsheet';
+
+const at = (...parts: [number, number, number, number, number, number]) =>
+  new Date(parts[0], parts[1] - 1, parts[2], parts[3], parts[4], parts[5]).getTime();
+
+const record = (overrides: Partial<InventoryRecord>): InventoryRecord => ({
+  id: 'r1',
+  InventoryDate: at(2024, 3, 15, 14, 30, 5),
+  Status: 'OK',
+  scannedBy: 'Amy',
+  sessionId: 's1',
+  Quantity: 1,
+  PartID: 'P-1',
+  VendorSN: 'SN1',
+  Project: 'PRJ',
+  Class: 'CLS',
+  Location: 'A-01',
+  FoundLocation: 'A-01',
+  Vendor: 'ACME',
+  VendorPN: 'V-1',
+  CustomerPN: 'C-1',
+  Description: 'Plain part',
+  ...overrides
+});
+
+// Everything the scanned-only export carries
+const exported = (r: InventoryRecord) => ({
+  InventoryDate: r.InventoryDate,
+  PartID: r.PartID,
+  VendorSN: r.VendorSN,
+  Project: r.Project,
+  Class: r.Class,
+  Location: r.Location,
+  FoundLocation: r.FoundLocation,
+  Status: r.Status,
+  Vendor: r.Vendor,
+  VendorPN: r.VendorPN,
+  CustomerPN: r.CustomerPN,
+  Description: r.Description,
+  scannedBy: r.scannedBy,
+  Quantity: r.Quantity
+});
+
+const RECORDS: InventoryRecord[] = [
+  record({}),
+  // The first hour after midnight is where zh-TW locale text used to break
+  record({ id: 'r2', PartID: 'P-2', InventoryDate: at(2024, 1, 1, 0, 5, 9), Status: 'Checked' }),
+  record({ id: 'r3', PartID: 'P-3', InventoryDate: at(2024, 12, 31, 23, 59, 59), Status: 'Misplaced', FoundLocation: 'B;02' }),
+  record({
+    id: 'r4',
+    PartID: 'P-4',
+    Status: 'Not Found',
+    Location: 'A,01',
+    VendorPN: 'V\t"4"',
+    Description: 'Cable, 2m\nblack "braided"',
+    Quantity: 12
+  })
+];
+
+const roundTrip = (records: InventoryRecord[], delimiter: CsvDelimiter) => {
+  const text = reportCsvText([{
+    name: '已盤點',
+    header: SCANNED_REPORT_HEADER,
+    rows: records.map(r => scannedReportRow(r, '其他'))
+  }], delimiter);
+  return parseScanCsv(parseCsv(text, delimiter));
+};
+
+describe('scanned report export → merge', () => {
+  it.each<[string, CsvDelimiter]>([['comma', ','], ['semicolon', ';'], ['tab', '\t']])('is lossless with %s delimiters', (_, delimiter) => {
+    const { records, invalid } = roundTrip(RECORDS, delimiter);
+
+    expect(invalid).toEqual([]);
+    expect(records.map(exported)).toEqual(RECORDS.map(exported));
+  });
+
+  it('classifies re-imported rows as identical to the originals', () => {
+    const { records } = roundTrip(RECORDS, ',');
+
+    expect(classifyMerge(records, RECORDS).map(row => row.kind)).toEqual(RECORDS.map(() => 'identical'));
+  });
+
+  it('reports rows with a missing or unreadable date instead of stamping them now', () => {
+    const header = SCANNED_REPORT_HEADER.join(',');
+    const row = (date: string) => ['"' + date + '"', 'P-9', ...SCANNED_REPORT_HEADER.slice(2).map(() => '')].join(',');
+    const { records, invalid } = parseScanCsv(parseCsv([header, row(''), row('someday'), row('2024/02/30 10:00:00')].join('\n'), ','));
+
+    expect(records).toEqual([]);
+    expect(invalid.map(i => i.line)).toEqual([2, 3, 4]);
+  });
+});
+
+describe('report dates', () => {
+  it('formats with a zero-padded 00-23 hour', () => {
+    expect(formatReportDate(new Date(at(2024, 1, 2, 0, 5, 9)))).toBe('2024/01/02 00:05:09');
+  });
+
+  it('reads back the zh-TW text of older exports', () => {
+    expect(parseReportDate('2024/1/2 24:05:09')).toBe(at(2024, 1, 2, 0, 5, 9));
+    expect(parseReportDate('2024/1/2 下午3:04:05')).toBe(at(2024, 1, 2, 15, 4, 5));
+    expect(parseReportDate('2024/1/2 上午12:04:05')).toBe(at(2024, 1, 2, 0, 4, 5));
+  });
+
+  it('reads ISO timestamps', () => {
+    expect(parseReportDate('2024-01-02T03:04:05.000Z')).toBe(Date.UTC(2024, 0, 2, 3, 4, 5));
+  });
+});
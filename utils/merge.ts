@@ -0,0 +1,141 @@
+import { InventoryRecord, ScanStatus } from '../types';
+import { parseQuantity } from './masterImport';
+import { CsvTable, isBlankRow } from './csv';
+import { parseReportDate } from './spreadsheet';
+
+export type MergeRowKind = 'new' | 'identical' | 'conflict';
+export type MergeChoice = 'existing' | 'incoming';
+export type MergeRule = 'newest' | 'checked' | 'manual';
+
+// Fields that make two scans of the same part disagree
+export type MergeConflictField = 'Status' | 'scannedBy' | 'InventoryDate';
+
+export interface MergeRow {
+  kind: MergeRowKind;
+  incoming: InventoryRecord;
+  existing?: InventoryRecord;
+  conflicts: MergeConflictField[];
+}
+
+export interface ScanCsvParseResult {
+  records: InventoryRecord[];
+  invalid: { line: number, reason: string }[]; // Rows left out of the merge
+}
+
+export const MERGE_RULE_LABELS: Record<MergeRule, string> = {
+  newest: '較新者優先',
+  checked: 'Checked 優先',
+  manual: '逐筆選擇'
+};
+
+const SCAN_STATUSES: ScanStatus[] = ['OK', 'Not Found', 'Duplicated', 'Checked', 'Misplaced'];
+
+// Exports use local time with second precision
+const sameSecond = (a: number, b: number) => Math.floor(a / 1000) === Math.floor(b / 1000);
+
+const parseStatus = (value: string): ScanStatus | undefined => {
+  if (!value.trim()) return 'OK';
+  return SCAN_STATUSES.find(s => s.toLowerCase() === value.trim().toLowerCase());
+};
+
+// Positions of the original App export, used when a file has no header row
+const LEGACY_COLUMNS = ["盤點日期", "PartID", "Vendor S/N", "Project", "Class", "Location", "ScanStatus", "InvStatus", "Vendor", "Vendor P/N", "Customer P/N", "Description", "User"];
+
+// Reads a scanned-list CSV (App / full export layout). Columns are located by header name,
+// so newer exports that append columns (Counted Qty, Found Location...) read the same way.
+export const parseScanCsv = (table: CsvTable): ScanCsvParseResult => {
+  const { rows, lineNumbers } = table;
+  const hasHeader = rows.length > 0 && (rows[0].includes('PartID') || rows[0].includes('盤點日期'));
+  const headerCols = hasHeader ? rows[0].map(h => h.trim()) : LEGACY_COLUMNS;
+  const column = (cols: string[], name: string) => {
+    const idx = headerCols.indexOf(name);
+    return idx >= 0 ? (cols[idx] || '').trim() : '';
+  };
+
+  const records: InventoryRecord[] = [];
+  const invalid: ScanCsvParseResult['invalid'] = [];
+
+  for (let i = hasHeader ? 1 : 0; i < rows.length; i++) {
+    const cols = rows[i];
+    if (isBlankRow(cols)) continue;
+    const lineNo = lineNumbers[i];
+
+    if (lineNo === table.unterminatedLine) {
+      invalid.push({ line: lineNo, reason: '引號不成對' });
+      continue;
+    }
+    const partID = column(cols, 'PartID');
+    if (!partID) {
+      invalid.push({ line: lineNo, reason: '缺少 PartID' });
+      continue;
+    }
+    const statusText = column(cols, 'ScanStatus');
+    const status = parseStatus(statusText);
+    if (!status) {
+      invalid.push({ line: lineNo, reason: `未知的狀態「${statusText}」` });
+      continue;
+    }
+
+    // Merge decisions compare scan times, so a row without a readable one is left out
+    const dateText = column(cols, '盤點日期');
+    const timestamp = parseReportDate(dateText);
+    if (timestamp === undefined) {
+      invalid.push({ line: lineNo, reason: dateText ? `無法辨識的盤點日期「${dateText}」` : '缺少盤點日期' });
+      continue;
+    }
+
+    records.push({
+      id: Math.random().toString(36).substr(2, 9),
+      InventoryDate: timestamp,
+      PartID: partID,
+      VendorSN: column(cols, 'Vendor S/N'),
+      Project: column(cols, 'Project'),
+      Class: column(cols, 'Class'),
+      Location: column(cols, 'Location'),
+      FoundLocation: column(cols, 'Found Location'),
+      Status: status,
+      Vendor: column(cols, 'Vendor'),
+      VendorPN: column(cols, 'Vendor P/N'),
+      CustomerPN: column(cols, 'Customer P/N'),
+      Description: column(cols, 'Description'),
+      scannedBy: column(cols, 'User') || 'Imported',
+      sessionId: '',
+      Quantity: parseQuantity(column(cols, 'Counted Qty'))
+    });
+  }
+
+  return { records, invalid };
+};
+
+// A part listed twice in the incoming file keeps its newest row
+export const classifyMerge = (incoming: InventoryRecord[], existing: InventoryRecord[]): MergeRow[] => {
+  const existingMap = new Map(existing.map(r => [r.PartID, r]));
+  const latest = new Map<string, InventoryRecord>();
+  incoming.forEach(r => {
+    const prev = latest.get(r.PartID);
+    if (!prev || r.InventoryDate > prev.InventoryDate) latest.set(r.PartID, r);
+  });
+
+  return Array.from(latest.values()).map(r => {
+    const current = existingMap.get(r.PartID);
+    if (!current) return { kind: 'new', incoming: r, conflicts: [] };
+
+    const conflicts: MergeConflictField[] = [];
+    if (current.Status !== r.Status) conflicts.push('Status');
+    if (current.scannedBy !== r.scannedBy) conflicts.push('scannedBy');
+    if (!sameSecond(current.InventoryDate, r.InventoryDate)) conflicts.push('InventoryDate');
+
+    return { kind: conflicts.length > 0 ? 'conflict' : 'identical', incoming: r, existing: current, conflicts };
+  });
+};
+
+// Manual rule starts from "keep what is already here"; the preview lets each row be flipped
+export const resolveByRule = (row: MergeRow, rule: MergeRule): MergeChoice => {
+  if (!row.existing || rule === 'manual') return 'existing';
+  if (rule === 'checked') {
+    const incomingChecked = row.incoming.Status === 'Checked';
+    const existingChecked = row.existing.Status === 'Checked';
+    if (incomingChecked !== existingChecked) return incomingChecked ? 'incoming' : 'existing';
+  }
+  return row.incoming.InventoryDate > row.existing.InventoryDate ? 'incoming' : 'existing';
+};
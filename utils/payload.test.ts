@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PAYLOAD_RULES, parseGs1, parsePayload } from './payload';
+
+const GS = '\u001d';
+const enabledAll = DEFAULT_PAYLOAD_RULES.map(r => ({ ...r, enabled: true }));
+
+describe('parsePayload', () => {
+  it('reads bracketed and raw GS1 labels', () => {
+    expect(parsePayload('(240)ABC-123(21)SN0001(30)5', DEFAULT_PAYLOAD_RULES)).toMatchObject({ partId: 'ABC-123', serial: 'SN0001', quantity: 5 });
+    expect(parsePayload(`]C1240ABC-123${GS}21SN0001${GS}305`, DEFAULT_PAYLOAD_RULES)).toMatchObject({ partId: 'ABC-123', serial: 'SN0001', quantity: 5 });
+  });
+
+  it('reads key/value QR codes', () => {
+    expect(parsePayload('PN:ABC-123;SN:X9;QTY:5', DEFAULT_PAYLOAD_RULES)).toMatchObject({ partId: 'ABC-123', serial: 'X9', quantity: 5 });
+  });
+
+  it('leaves plain codes starting with P or S alone by default', () => {
+    ['PCB-1234', 'P12345', 'SMT-778', 'Q100', '4712345678901'].forEach(code => {
+      expect(parsePayload(code, DEFAULT_PAYLOAD_RULES)).toBeUndefined();
+    });
+  });
+
+  it('reads data identifiers once that rule is enabled', () => {
+    expect(parsePayload('1PABC-123', enabledAll)).toMatchObject({ partId: 'ABC-123' });
+    expect(parsePayload('SX9', enabledAll)).toMatchObject({ serial: 'X9' });
+  });
+
+  it('skips disabled rules and rules with a broken pattern', () => {
+    const rules = [
+      { id: 'broken', name: '', type: 'regex' as const, part: '(', serial: '', qty: '', enabled: true },
+      { id: 'off', name: '', type: 'regex' as const, part: '^(.+)$', serial: '', qty: '', enabled: false }
+    ];
+    expect(parsePayload('ABC', rules)).toBeUndefined();
+  });
+});
+
+describe('parseGs1', () => {
+  it('splits fixed-length and GS-terminated fields', () => {
+    expect(Object.fromEntries(parseGs1(`0109501101530003${GS}10LOT7${GS}17250101`))).toEqual({ '01': '09501101530003', '10': 'LOT7', '17': '250101' });
+  });
+});
@@ -0,0 +1,163 @@
+import { LookupField, ParsedPayload, PayloadRule, PayloadRuleType } from '../types';
+
+export const PAYLOAD_RULE_TYPE_LABELS: Record<PayloadRuleType, string> = {
+  gs1: 'GS1 應用識別碼',
+  regex: '正規表示式'
+};
+
+export const LOOKUP_FIELDS: LookupField[] = ['VendorSN', 'CustomerPN', 'VendorPN'];
+
+export const LOOKUP_FIELD_LABELS: Record<LookupField, string> = {
+  VendorSN: '廠商序號',
+  CustomerPN: '客戶料號',
+  VendorPN: '廠商料號'
+};
+
+const RULES_KEY = 'zen_payload_rules';
+
+// GS1 vendor labels, key/value QR codes such as "PN:ABC123;SN:X9;QTY:5", and ANSI MH10.8.2 data
+// identifiers on Code-39 (P = part, 1P = supplier part, S = serial, Q = quantity). Data identifiers
+// ship disabled: they would also strip the first letter of plain PartIDs like "PCB-1234" or "SMT-778".
+export const DEFAULT_PAYLOAD_RULES: PayloadRule[] = [
+  { id: 'gs1', name: 'GS1', type: 'gs1', part: '240, 241, 01', serial: '21', qty: '30, 37', enabled: true },
+  {
+    id: 'key-value',
+    name: 'QR 多欄位',
+    type: 'regex',
+    part: '(?:^|[;|,\\s])(?:PN|P/N|PART\\s?NO)\\s*[:=]\\s*([^;|,\\r\\n]+)',
+    serial: '(?:^|[;|,\\s])(?:SN|S/N|SERIAL)\\s*[:=]\\s*([^;|,\\r\\n]+)',
+    qty: '(?:^|[;|,\\s])(?:QTY|Q\'TY)\\s*[:=]\\s*(\\d+)',
+    enabled: true
+  },
+  { id: 'data-identifiers', name: 'Code 39 P/S/Q', type: 'regex', part: '^1?P([^\\s:=;|,]+)$', serial: '^S([^\\s:=;|,]+)$', qty: '^Q(\\d+)$', enabled: false }
+];
+
+export const loadPayloadRules = (): PayloadRule[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(RULES_KEY) || 'null');
+    return Array.isArray(saved) ? saved : DEFAULT_PAYLOAD_RULES;
+  } catch (e) {
+    return DEFAULT_PAYLOAD_RULES;
+  }
+};
+
+export const savePayloadRules = (rules: PayloadRule[]) => {
+  localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+};
+
+export const resetPayloadRules = () => {
+  localStorage.removeItem(RULES_KEY);
+};
+
+// --- GS1 ---
+
+const GS = '\u001d';
+// Symbology identifiers some scanners prepend: GS1-128, GS1 DataMatrix, GS1 QR, GS1 DataBar
+const GS1_SYMBOLOGY = /^\](C1|d2|Q3|e0)/;
+
+// [AI prefix, digits in the AI, fixed data length]; no length means variable, ended by GS
+const GS1_AI_FORMATS: [string, number, number?][] = [
+  ['00', 2, 18], ['01', 2, 14], ['02', 2, 14], ['03', 2, 14], ['04', 2, 16],
+  ['11', 2, 6], ['12', 2, 6], ['13', 2, 6], ['15', 2, 6], ['16', 2, 6], ['17', 2, 6], ['20', 2, 2],
+  ['31', 4, 6], ['32', 4, 6], ['33', 4, 6], ['34', 4, 6], ['35', 4, 6], ['36', 4, 6],
+  ['41', 3, 13],
+  ['23', 3], ['24', 3], ['25', 3], ['40', 3], ['42', 3], ['7', 4], ['8', 4],
+  ['1', 2], ['2', 2], ['3', 2], ['9', 2]
+];
+
+const aiFormat = (data: string) => GS1_AI_FORMATS.find(([prefix]) => data.startsWith(prefix));
+
+// Only payloads that say they are GS1 are read as such: a plain EAN or part number never is
+const isGs1 = (raw: string) => GS1_SYMBOLOGY.test(raw) || raw.includes(GS) || /^\(\d{2,4}\)/.test(raw);
+
+// AI -> value, from either the bracketed human-readable form or the raw FNC1/GS form
+export const parseGs1 = (raw: string): Map<string, string> => {
+  const fields = new Map<string, string>();
+  const text = raw.replace(GS1_SYMBOLOGY, '');
+
+  if (text.startsWith('(')) {
+    for (const m of text.matchAll(/\((\d{2,4})\)([^(]*)/g)) fields.set(m[1], m[2].trim());
+    return fields;
+  }
+
+  let rest = text.replace(new RegExp(`^${GS}+`), '');
+  while (rest.length > 0) {
+    const format = aiFormat(rest);
+    if (!format) break;
+    const [, aiDigits, length] = format;
+    const ai = rest.slice(0, aiDigits);
+    let value: string;
+    if (length !== undefined) {
+      value = rest.slice(aiDigits, aiDigits + length);
+      rest = rest.slice(aiDigits + length);
+    } else {
+      const end = rest.indexOf(GS, aiDigits);
+      value = end < 0 ? rest.slice(aiDigits) : rest.slice(aiDigits, end);
+      rest = end < 0 ? '' : rest.slice(end);
+    }
+    fields.set(ai, value);
+    rest = rest.replace(new RegExp(`^${GS}+`), '');
+  }
+  return fields;
+};
+
+const aiList = (spec: string) => spec.split(',').map(s => s.trim()).filter(Boolean);
+
+// --- Rules ---
+
+const matchPattern = (pattern: string, raw: string): string | undefined => {
+  if (!pattern.trim()) return undefined;
+  try {
+    const m = raw.match(new RegExp(pattern));
+    return m?.[1]?.trim() || undefined;
+  } catch (e) {
+    return undefined;
+  }
+};
+
+const toQuantity = (value?: string) => {
+  const n = Number(value);
+  return value && Number.isFinite(n) && n > 0 ? n : undefined;
+};
+
+const applyRule = (rule: PayloadRule, raw: string): Omit<ParsedPayload, 'rule'> => {
+  if (rule.type === 'gs1') {
+    if (!isGs1(raw)) return {};
+    const fields = parseGs1(raw);
+    const pick = (spec: string) => aiList(spec).map(ai => fields.get(ai)).find(v => v);
+    return { partId: pick(rule.part), serial: pick(rule.serial), quantity: toQuantity(pick(rule.qty)) };
+  }
+  return {
+    partId: matchPattern(rule.part, raw),
+    serial: matchPattern(rule.serial, raw),
+    quantity: toQuantity(matchPattern(rule.qty, raw))
+  };
+};
+
+// First enabled rule that yields a PartID or serial; undefined when none applies
+export const parsePayload = (raw: string, rules: PayloadRule[]): ParsedPayload | undefined => {
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    const parsed = applyRule(rule, raw);
+    if (parsed.partId || parsed.serial) return { ...parsed, rule };
+  }
+  return undefined;
+};
+
+// Error message for an unusable rule, shown by the editor
+export const validatePayloadRule = (rule: PayloadRule): string | undefined => {
+  if (!rule.part.trim() && !rule.serial.trim()) return '請至少設定 PartID 或序號';
+  if (rule.type === 'regex') {
+    for (const pattern of [rule.part, rule.serial, rule.qty]) {
+      if (!pattern.trim()) continue;
+      try {
+        new RegExp(pattern);
+      } catch (e) {
+        return `正規表示式格式錯誤：${pattern}`;
+      }
+    }
+  } else if ([rule.part, rule.serial, rule.qty].some(spec => aiList(spec).some(ai => !/^\d{2,4}$/.test(ai)))) {
+    return 'AI 需為 2–4 位數字，以逗號分隔';
+  }
+  return undefined;
+};
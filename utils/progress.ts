@@ -0,0 +1,41 @@
+import { InventorySession, MasterItem } from '../types';
+import { isInSessionScope } from './session';
+
+// Everything progress needs about a master item, stored as one compound index key
+// so stats and the unscanned browser can work from the index without loading items
+export type ProgressKey = [category: string, Class: string, Location: string, Project: string];
+
+export const progressKey = (item: MasterItem, category: string): ProgressKey =>
+  [category, item.Class || '', item.Location || '', item.Project || ''];
+
+export const isKeyInScope = (key: ProgressKey, session?: InventorySession) =>
+  !session || isInSessionScope({ Location: key[2], Project: key[3] }, session);
+
+export interface ProgressCounts {
+  total: number;
+  byCategory: Record<string, number>;
+  byClass: Record<string, number>;
+  byLocation: Record<string, number>;
+}
+
+export const emptyCounts = (): ProgressCounts => ({ total: 0, byCategory: {}, byClass: {}, byLocation: {} });
+
+const bump = (counts: Record<string, number>, key: string, delta: number) => {
+  counts[key] = (counts[key] || 0) + delta;
+};
+
+// Adds (delta 1) or removes (delta -1) one part from every breakdown
+export const tally = (counts: ProgressCounts, key: ProgressKey, delta: number) => {
+  counts.total += delta;
+  bump(counts.byCategory, key[0], delta);
+  bump(counts.byClass, key[1], delta);
+  bump(counts.byLocation, key[2], delta);
+};
+
+// Counts are mutated in place by tally(); callers keep one running object and copy it for React
+export const copyCounts = (counts: ProgressCounts): ProgressCounts => ({
+  total: counts.total,
+  byCategory: { ...counts.byCategory },
+  byClass: { ...counts.byClass },
+  byLocation: { ...counts.byLocation }
+});
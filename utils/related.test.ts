@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { RelatedRule } from '../types';
+import { DEFAULT_RELATED_RULES, normalizeValue, ruleKey } from './related';
+
+const rule = (id: string) => DEFAULT_RELATED_RULES.find(r => r.id === id)!;
+
+describe('normalizeValue', () => {
+  it('applies only the chosen normalisations', () => {
+    expect(normalizeValue(' AB-12 / x ', { ignoreCase: false, stripSpaces: false, stripDashes: false })).toBe('AB-12 / x');
+    expect(normalizeValue(' AB-12 / x ', { ignoreCase: true, stripSpaces: true, stripDashes: false })).toBe('ab-12/x');
+    expect(normalizeValue('AB-12_3.4\\5', { ignoreCase: false, stripSpaces: false, stripDashes: true })).toBe('AB12345');
+  });
+});
+
+describe('ruleKey', () => {
+  it('gives equal keys to values the rule considers the same', () => {
+    expect(ruleKey({ CustomerPN: 'ab-12 34' }, rule('customer-pn'))).toBe(ruleKey({ CustomerPN: 'AB1234' }, rule('customer-pn')));
+    expect(ruleKey({ VendorPN: 'ab-12' }, rule('vendor-pn'))).not.toBe(ruleKey({ VendorPN: 'AB-12' }, rule('vendor-pn')));
+  });
+
+  it('needs every field of a multi-field rule', () => {
+    const projectClass = rule('project-class');
+    expect(ruleKey({ Project: 'P1', Class: 'C1' }, projectClass)).toBe(ruleKey({ Project: 'p1', Class: 'c1' }, projectClass));
+    expect(ruleKey({ Project: 'P1', Class: 'C1' }, projectClass)).not.toBe(ruleKey({ Project: 'P1', Class: 'C2' }, projectClass));
+    expect(ruleKey({ Project: 'P1' }, projectClass)).toBeUndefined();
+  });
+
+  it('never relates items on blank or placeholder values', () => {
+    ['', '  ', 'NA', 'n/a', '-', 'None', 'NULL'].forEach(value => {
+      expect(ruleKey({ VendorPN: value }, rule('vendor-pn'))).toBeUndefined();
+    });
+  });
+
+  it('has no key for a rule without fields', () => {
+    const empty: RelatedRule = { ...rule('vendor-pn'), fields: [] };
+    expect(ruleKey({ VendorPN: 'X' }, empty)).toBeUndefined();
+  });
+});
@@ -0,0 +1,63 @@
+import { MasterItem, RelatedField, RelatedNormalization, RelatedRule } from '../types';
+
+export const RELATED_FIELD_LABELS: Record<RelatedField, string> = {
+  VendorPN: '廠商料號',
+  CustomerPN: '客戶料號',
+  Description: '品名',
+  Project: '專案',
+  Class: '類別',
+  Vendor: '廠商',
+  Location: '儲位'
+};
+
+const RULES_KEY = 'zen_related_rules';
+// Filler the ERP writes into empty cells; never a reason to call two parts related
+const PLACEHOLDER_VALUES = ['na', 'n/a', '-', 'none', 'null'];
+
+const STRICT: RelatedNormalization = { ignoreCase: false, stripSpaces: false, stripDashes: false };
+
+// The first two reproduce the original behaviour (exact VendorPN, then full case-insensitive Description)
+export const DEFAULT_RELATED_RULES: RelatedRule[] = [
+  { id: 'vendor-pn', fields: ['VendorPN'], normalization: STRICT, enabled: true },
+  { id: 'description', fields: ['Description'], normalization: { ...STRICT, ignoreCase: true }, enabled: true },
+  { id: 'customer-pn', fields: ['CustomerPN'], normalization: { ignoreCase: true, stripSpaces: true, stripDashes: true }, enabled: true },
+  { id: 'project-class', fields: ['Project', 'Class'], normalization: { ...STRICT, ignoreCase: true }, enabled: true }
+];
+
+export const ruleLabel = (rule: RelatedRule) => rule.fields.map(f => RELATED_FIELD_LABELS[f]).join(' + ');
+
+export const loadRelatedRules = (): RelatedRule[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(RULES_KEY) || 'null');
+    return Array.isArray(saved) ? saved : DEFAULT_RELATED_RULES;
+  } catch (e) {
+    return DEFAULT_RELATED_RULES;
+  }
+};
+
+export const saveRelatedRules = (rules: RelatedRule[]) => {
+  localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+};
+
+export const resetRelatedRules = () => {
+  localStorage.removeItem(RULES_KEY);
+};
+
+export const normalizeValue = (value: string, n: RelatedNormalization) => {
+  let v = value.trim();
+  if (n.ignoreCase) v = v.toLowerCase();
+  if (n.stripSpaces) v = v.replace(/\s+/g, '');
+  if (n.stripDashes) v = v.replace(/[-_./\\]/g, '');
+  return v;
+};
+
+// Comparison key of an item under a rule; undefined when any field is blank or a placeholder
+export const ruleKey = (item: Partial<Pick<MasterItem, RelatedField>>, rule: RelatedRule): string | undefined => {
+  const parts: string[] = [];
+  for (const field of rule.fields) {
+    const v = normalizeValue(item[field] || '', rule.normalization);
+    if (!v || PLACEHOLDER_VALUES.includes(v.toLowerCase())) return undefined;
+    parts.push(v);
+  }
+  return parts.length > 0 ? parts.join('\u0001') : undefined;
+};
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { matchRanges } from './search';
+
+const highlighted = (text: string, query: string) => matchRanges(text, query).map(([start, end]) => text.slice(start, end));
+
+describe('matchRanges', () => {
+  it('marks whole query words', () => {
+    expect(matchRanges('Cable ABC-123', 'abc')).toEqual([[6, 9]]);
+  });
+
+  it('returns UTF-16 offsets after astral characters', () => {
+    expect(highlighted('📦 Cable 2m', 'cable')).toEqual(['Cable']);
+    expect(highlighted('𠮷野家 電源線', '電源')).toEqual(['電源']);
+  });
+
+  it('maps characters that fold to a different length back to the original', () => {
+    expect(highlighted('𝐀𝐁𝐂-123', 'abc')).toEqual(['𝐀𝐁𝐂']);
+  });
+});
@@ -0,0 +1,189 @@
+import { MasterItem } from '../types';
+
+// Master fields the autocomplete searches, strongest signal first
+export type SearchField = 'PartID' | 'VendorPN' | 'CustomerPN' | 'Description';
+
+export interface MasterSearchHit {
+  item: MasterItem;
+  field: SearchField; // Field that produced the best score
+  score: number;
+}
+
+const CODE_FIELDS: SearchField[] = ['PartID', 'VendorPN', 'CustomerPN'];
+const FIELD_WEIGHT: Record<SearchField, number> = { PartID: 1, VendorPN: 0.9, CustomerPN: 0.9, Description: 0.7 };
+// Share of the query's trigrams a field must contain to count as a typo match
+const FUZZY_THRESHOLD = 0.5;
+
+const CJK = /[\u3400-\u9FFF\uF900-\uFAFF]/;
+
+// Full-width letters/digits fold to ASCII, case is ignored; per character so indexes stay aligned
+const foldChar = (ch: string) => {
+  const n = ch.normalize('NFKC').toLowerCase();
+  return n.length === 1 ? n : ch.toLowerCase();
+};
+export const foldText = (text: string) => Array.from(text, foldChar).join('');
+
+// Part numbers are compared without separators: "ABC-123 / 4" ~ "abc1234"
+const compact = (text: string) => foldText(text).replace(/[^0-9a-z\u3400-\u9FFF\uF900-\uFAFF]/g, '');
+
+const grams = (text: string, n: number): string[] => {
+  if (text.length < n) return [];
+  const out: string[] = [];
+  for (let i = 0; i <= text.length - n; i++) out.push(text.slice(i, i + n));
+  return out;
+};
+
+// Latin/digit words, and runs of CJK characters (which have no spaces between words)
+const words = (text: string): string[] => foldText(text).match(/[0-9a-z]+|[\u3400-\u9FFF\uF900-\uFAFF]+/g) || [];
+
+// Latin words index as themselves plus trigrams; CJK runs as bigrams (plus single characters for 1-char runs)
+const wordTerms = (word: string): string[] => {
+  if (CJK.test(word)) return word.length === 1 ? [word] : grams(word, 2);
+  return [word, ...grams(word, 3)];
+};
+
+// Everything stored in the multi-entry index for one master item
+export const buildSearchTerms = (item: MasterItem): string[] => {
+  const terms = new Set<string>();
+  CODE_FIELDS.forEach(field => {
+    const value = compact(item[field] || '');
+    if (!value || value === 'na') return;
+    terms.add(value);
+    grams(value, 3).forEach(g => terms.add(g));
+  });
+  words(item.Description || '').forEach(w => wordTerms(w).forEach(t => terms.add(t)));
+  return Array.from(terms);
+};
+
+// Index keys to look up for a query; short queries fall back to a prefix scan
+export const queryTerms = (query: string): { grams: string[], prefix?: string } => {
+  const value = compact(query);
+  const set = new Set<string>();
+  words(query).forEach(w => wordTerms(w).forEach(t => set.add(t)));
+  grams(value, 3).forEach(g => set.add(g));
+  return { grams: Array.from(set), prefix: value.length > 0 && value.length < 3 ? value : undefined };
+};
+
+// Edit distance counting an adjacent swap as one edit, the most common typing slip on part numbers
+const editDistance = (a: string, b: string): number => {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+    }
+  }
+  return d[a.length][b.length];
+};
+
+// Typos allowed for a query of this length: none below 4 characters, two from 8
+const allowedTypos = (length: number) => length >= 8 ? 2 : length >= 4 ? 1 : 0;
+
+// Query against the whole value or the value's start, so a mistyped prefix still matches
+const typoDistance = (query: string, value: string) =>
+  Math.min(editDistance(query, value), editDistance(query, value.slice(0, query.length)));
+
+const containment = (queryGrams: string[], value: string) => {
+  if (queryGrams.length === 0) return 0;
+  const valueGrams = new Set(grams(value, 3));
+  return queryGrams.filter(g => valueGrams.has(g)).length / queryGrams.length;
+};
+
+const scoreField = (field: SearchField, raw: string, query: string): number => {
+  const q = compact(query);
+  if (!q || !raw) return 0;
+
+  if (field === 'Description') {
+    const text = foldText(raw);
+    const textWords = words(raw);
+    const queryWords = words(query);
+    if (text.includes(foldText(query).trim())) return 60;
+    if (queryWords.every(qw => textWords.some(w => w.startsWith(qw) || (CJK.test(qw) && w.includes(qw))))) return 50;
+    if (queryWords.every(qw => textWords.some(w => typoDistance(qw, w) <= allowedTypos(qw.length)))) return 45;
+    const fuzzy = containment(grams(q, 3), compact(raw));
+    return fuzzy >= FUZZY_THRESHOLD ? 40 * fuzzy : 0;
+  }
+
+  const value = compact(raw);
+  if (value === q) return 100;
+  if (value.startsWith(q)) return 80;
+  if (value.includes(q)) return 60;
+  const typos = typoDistance(q, value);
+  if (typos <= allowedTypos(q.length)) return 55 - 10 * typos;
+  const fuzzy = containment(grams(q, 3), value);
+  return fuzzy >= FUZZY_THRESHOLD ? 50 * fuzzy : 0;
+};
+
+// PartIDs sharing enough query terms to be worth scoring, most shared first
+export const pickCandidates = (postings: string[][], limit: number): string[] => {
+  const tally = new Map<string, number>();
+  postings.forEach(ids => ids.forEach(id => tally.set(id, (tally.get(id) || 0) + 1)));
+  // A single typo breaks up to three trigrams, so short queries need only one shared term
+  const needed = Math.max(1, Math.floor(postings.length * 0.3));
+  return Array.from(tally.entries())
+    .filter(([, n]) => n >= needed)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([id]) => id);
+};
+
+// Best-scoring field decides an item's rank; ties fall back to PartID order
+export const rankMasterItems = (items: MasterItem[], query: string, limit: number): MasterSearchHit[] => {
+  const hits: MasterSearchHit[] = [];
+  items.forEach(item => {
+    let best: MasterSearchHit | null = null;
+    ([...CODE_FIELDS, 'Description'] as SearchField[]).forEach(field => {
+      const score = scoreField(field, item[field] || '', query) * FIELD_WEIGHT[field];
+      if (score > 0 && (!best || score > best.score)) best = { item, field, score };
+    });
+    if (best) hits.push(best);
+  });
+  return hits
+    .sort((a, b) => b.score - a.score || a.item.PartID.localeCompare(b.item.PartID))
+    .slice(0, limit);
+};
+
+// UTF-16 ranges of text to highlight (as String.slice expects): whole query words, plus every query trigram so
+// a mistyped query still marks the parts that did match
+export const matchRanges = (text: string, query: string): [number, number][] => {
+  // Folding can change a character's UTF-16 length (𝐀 → a, İ → i̇), so each folded unit
+  // remembers the span of the original character it came from
+  let folded = '';
+  const origin: [number, number][] = [];
+  let offset = 0;
+  for (const ch of Array.from(text)) {
+    const f = foldChar(ch);
+    for (let k = 0; k < f.length; k++) origin.push([offset, offset + ch.length]);
+    folded += f;
+    offset += ch.length;
+  }
+
+  const needles = new Set<string>();
+  words(query).forEach(w => {
+    if (w.length >= 2 || CJK.test(w)) needles.add(w);
+  });
+  grams(compact(query), 3).forEach(g => needles.add(g));
+
+  const marked = new Array<boolean>(text.length).fill(false);
+  needles.forEach(needle => {
+    let from = folded.indexOf(needle);
+    while (from >= 0) {
+      for (let i = from; i < from + needle.length; i++) {
+        const [start, end] = origin[i];
+        for (let j = start; j < end; j++) marked[j] = true;
+      }
+      from = folded.indexOf(needle, from + 1);
+    }
+  });
+
+  const ranges: [number, number][] = [];
+  marked.forEach((on, i) => {
+    if (!on) return;
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === i) last[1] = i + 1;
+    else ranges.push([i, i + 1]);
+  });
+  return ranges;
+};
@@ -0,0 +1,34 @@
+import { InventorySession, SessionStatus } from '../types';
+
+export const SESSION_STATUS_LABELS: Record<SessionStatus, string> = {
+  open: '進行中',
+  frozen: '已凍結',
+  closed: '已結束'
+};
+
+export const createSession = (name: string, scopeProjects: string[] = [], scopeLocations: string[] = []): InventorySession => ({
+  id: Math.random().toString(36).substr(2, 9),
+  name,
+  startDate: Date.now(),
+  scopeProjects,
+  scopeLocations,
+  status: 'open'
+});
+
+// Every device seeds its first session under the same id, so devices that later join one sync
+// server count into one shared session instead of one each. Freezing or closing it therefore
+// applies on every synced device.
+export const INITIAL_SESSION_ID = 'initial';
+
+export const createInitialSession = (): InventorySession => ({ ...createSession('初始盤點'), id: INITIAL_SESSION_ID });
+
+// Empty scope lists mean the session covers every master item
+export const isInSessionScope = (item: { Project?: string, Location?: string }, session: InventorySession) => {
+  if (session.scopeProjects.length > 0 && !session.scopeProjects.includes(item.Project || '')) return false;
+  if (session.scopeLocations.length > 0 && !session.scopeLocations.includes(item.Location || '')) return false;
+  return true;
+};
+
+// "A26, A31" -> ['A26', 'A31']
+export const parseScopeList = (input: string): string[] =>
+  input.split(',').map(s => s.trim()).filter(Boolean);
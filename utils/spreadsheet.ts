@@ -0,0 +1,153 @@
+// Report output in CSV or Excel, and reading the first sheet of an .xlsx upload.
+// ExcelJS is large, so it is only loaded when an Excel file is actually written or read.
+import { InventoryRecord } from '../types';
+import { CsvDelimiter, getCsvDelimiter, toCsvText } from './csv';
+
+export type ReportFormat = 'csv' | 'xlsx';
+
+export type ReportCell = string | number | Date | null | undefined;
+
+export interface ReportSheet {
+  name: string;
+  header: string[];
+  rows: ReportCell[][];
+}
+
+// Columns every record report starts with; each report appends its own quantity columns
+const RECORD_REPORT_COLUMNS = ["盤點日期", "PartID", "Vendor S/N", "Project", "Class", "Location", "ScanStatus", "InvStatus", "Vendor", "Vendor P/N", "Customer P/N", "Description", "User"];
+
+export const SCANNED_REPORT_HEADER = [...RECORD_REPORT_COLUMNS, "Counted Qty", "Found Location", "Category"];
+export const FULL_REPORT_HEADER = [...RECORD_REPORT_COLUMNS, "Expected Qty", "Counted Qty", "Variance", "Found Location", "Category"];
+export const UNSCANNED_REPORT_HEADER = ["PartID", "Vendor S/N", "Project", "Class", "Location", "Vendor", "Vendor P/N", "Customer P/N", "Description", "Expected Qty", "Category"];
+
+const DATE_FORMAT = 'yyyy/mm/dd hh:mm:ss';
+
+export const isXlsxFile = (file: File) => /\.xlsx$/i.test(file.name);
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.setAttribute("href", url);
+  link.setAttribute("download", fileName);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Local wall-clock time as yyyy/MM/dd HH:mm:ss. Not toLocaleString: with hour12 off, zh-TW writes
+// the hour after midnight as 24:MM, which Date.parse can't read back.
+export const formatReportDate = (date: Date) =>
+  `${date.getFullYear()}/${pad(date.getMonth() + 1)}/${pad(date.getDate())} ` +
+  `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+
+// Reads report dates back: the format above, the zh-TW text of older exports (24:MM, 上午/下午)
+// and ISO. Undefined when the text is not a real date.
+export const parseReportDate = (text: string): number | undefined => {
+  const m = text.trim().match(/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})(?:[ T]+(上午|下午)?\s*(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (!m) {
+    const parsed = Date.parse(text);
+    return isNaN(parsed) ? undefined : parsed;
+  }
+
+  const [year, month, day, minute, second] = [m[1], m[2], m[3], m[6], m[7]].map(v => Number(v ?? 0));
+  let hour = Number(m[5] ?? 0);
+  if (m[4] === '下午' && hour < 12) hour += 12;
+  if (m[4] === '上午' && hour === 12) hour = 0;
+  if (hour === 24) hour = 0;
+  if (hour > 23 || minute > 59 || second > 59) return undefined;
+
+  const date = new Date(year, month - 1, day, hour, minute, second);
+  // Rejects rolled-over dates such as 2024/02/30
+  return date.getMonth() === month - 1 && date.getDate() === day ? date.getTime() : undefined;
+};
+
+const cellText = (value: ReportCell) => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return formatReportDate(value);
+  return String(value);
+};
+
+export const reportCsvText = (sheets: ReportSheet[], delimiter: CsvDelimiter) =>
+  toCsvText(sheets[0].header, sheets.flatMap(sheet => sheet.rows.map(row => row.map(cellText))), delimiter);
+
+// One row of the scanned-only report, in SCANNED_REPORT_HEADER order
+export const scannedReportRow = (r: InventoryRecord, category: string): ReportCell[] => [
+  new Date(r.InventoryDate),
+  r.PartID,
+  r.VendorSN || '',
+  r.Project || '',
+  r.Class || '',
+  r.Location || '',
+  r.Status,
+  'Normal',
+  r.Vendor || '',
+  r.VendorPN || '',
+  r.CustomerPN || '',
+  r.Description || '',
+  r.scannedBy,
+  r.Quantity ?? 1,
+  r.FoundLocation || '',
+  category
+];
+
+// ExcelJS stores dates as UTC serials; shift so the sheet shows local wall-clock time
+const toExcelDate = (date: Date) => new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+
+const toXlsx = async (sheets: ReportSheet[]) => {
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+
+  sheets.forEach(sheet => {
+    const ws = workbook.addWorksheet(sheet.name, { views: [{ state: 'frozen', ySplit: 1 }] });
+    ws.addRow(sheet.header).font = { bold: true };
+    sheet.rows.forEach(row => {
+      ws.addRow(row.map(v => v instanceof Date ? toExcelDate(v) : v ?? null));
+    });
+
+    sheet.header.forEach((h, i) => {
+      const column = ws.getColumn(i + 1);
+      const isDate = sheet.rows.some(r => r[i] instanceof Date);
+      if (isDate) column.numFmt = DATE_FORMAT;
+      column.width = isDate ? 20 : Math.min(40, Math.max(10, h.length + 4));
+    });
+    if (sheet.rows.length > 0) {
+      ws.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: sheet.header.length } };
+    }
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
+
+// CSV has a single table, so multi-sheet reports are concatenated under the first header
+export const downloadReport = async (sheets: ReportSheet[], baseName: string, format: ReportFormat, delimiter: CsvDelimiter = getCsvDelimiter()) => {
+  if (format === 'xlsx') {
+    downloadBlob(await toXlsx(sheets), `${baseName}.xlsx`);
+  } else {
+    downloadBlob(new Blob([reportCsvText(sheets, delimiter)], { type: 'text/csv;charset=utf-8;' }), `${baseName}.csv`);
+  }
+};
+
+// First worksheet as text cells, the same shape a parsed CSV row has
+export const readXlsxRows = async (file: File): Promise<string[][]> => {
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  const ws = workbook.worksheets[0];
+  if (!ws) return [];
+
+  // eachCell stops at a row's last non-empty cell; pad every row to the sheet width so blank
+  // trailing columns don't read as a short row
+  const width = ws.columnCount;
+  const rows: string[][] = [];
+  ws.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+    const cells: string[] = Array(width).fill('');
+    row.eachCell({ includeEmpty: true }, (cell, col) => {
+      cells[col - 1] = cell.value instanceof Date ? cell.value.toISOString().slice(0, 10) : cell.text.trim();
+    });
+    rows[rowNumber - 1] = cells;
+  });
+  return Array.from(rows, r => r ?? Array(width).fill(''));
+};
@@ -0,0 +1,88 @@
+import { InventoryRecord, InventorySession, SyncDevice } from '../types';
+import { db, SYNC_URL_KEY } from './db';
+
+const DEVICE_ID_KEY = 'zen_device_id';
+// Server sequence number this device has pulled up to
+const SYNC_CURSOR_KEY = 'zen_sync_cursor';
+const REQUEST_TIMEOUT_MS = 8000;
+
+export const SYNC_INTERVAL_MS = 10000;
+
+interface SyncResponse {
+  cursor: number;
+  sessions: InventorySession[];
+  records: InventoryRecord[];
+  deleted: string[];
+  devices: SyncDevice[];
+}
+
+export const getSyncUrl = () => localStorage.getItem(SYNC_URL_KEY) || '';
+
+export const getDeviceId = () => {
+  let id = localStorage.getItem(DEVICE_ID_KEY);
+  if (!id) {
+    id = Math.random().toString(36).substr(2, 9);
+    localStorage.setItem(DEVICE_ID_KEY, id);
+  }
+  return id;
+};
+
+// "192.168.1.20:8787" -> "http://192.168.1.20:8787"; empty disables sync
+export const setSyncUrl = async (input: string) => {
+  let url = input.trim().replace(/\/+$/, '');
+  if (url && !/^https?:\/\//i.test(url)) url = `http://${url}`;
+  if (url === getSyncUrl()) return url;
+
+  localStorage.removeItem(SYNC_CURSOR_KEY);
+  if (url) {
+    localStorage.setItem(SYNC_URL_KEY, url);
+    await db.enqueueAll();
+  } else {
+    localStorage.removeItem(SYNC_URL_KEY);
+    await db.clearSyncQueueAll();
+  }
+  return url;
+};
+
+// One round trip: push the outbox, pull everything changed since the last cursor.
+// Throws when the server is unreachable; the outbox is kept for the next attempt.
+export const syncNow = async (user: string): Promise<SyncDevice[]> => {
+  const url = getSyncUrl();
+  if (!url) return [];
+
+  const queue = await db.getSyncQueue();
+  const sessionIds = Array.from(new Set(queue.filter(op => op.kind === 'session').map(op => op.key)));
+  const recordIds = Array.from(new Set(queue.filter(op => op.kind === 'record').map(op => op.key)));
+  const sessions = (await db.sessions.bulkGet(sessionIds)).filter((s): s is InventorySession => !!s);
+  const current = await db.records.bulkGet(recordIds);
+  const records = current.filter((r): r is InventoryRecord => !!r);
+  const deleted = recordIds.filter((_, i) => !current[i]);
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  let result: SyncResponse;
+  try {
+    const res = await fetch(`${url}/api/sync`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        deviceId: getDeviceId(),
+        user,
+        cursor: Number(localStorage.getItem(SYNC_CURSOR_KEY)) || 0,
+        sessions,
+        records,
+        deleted
+      }),
+      signal: controller.signal
+    });
+    if (!res.ok) throw new Error(`同步伺服器錯誤 (${res.status})`);
+    result = await res.json();
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (queue.length > 0) await db.clearSyncQueue(queue[queue.length - 1].id!);
+  await db.applyRemoteChanges(result.sessions, result.records, result.deleted);
+  localStorage.setItem(SYNC_CURSOR_KEY, String(result.cursor));
+  return result.devices;
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_WEDGE_SETTINGS, WedgeDetector, WedgeSettings, stripAffixes } from './wedge';
+
+const SETTINGS: WedgeSettings = { ...DEFAULT_WEDGE_SETTINGS, enabled: true };
+
+// Types keys `interval` ms apart starting at `start`; returns what the final key produced
+const type = (detector: WedgeDetector, keys: string[], start: number, interval: number) => {
+  let result: string | undefined;
+  keys.forEach((key, i) => { result = detector.key(key, start + i * interval); });
+  return result;
+};
+
+describe('WedgeDetector', () => {
+  it('returns a fast burst ended by Enter or Tab', () => {
+    const detector = new WedgeDetector(SETTINGS);
+    expect(type(detector, [...'ABC-123', 'Enter'], 1000, 10)).toBe('ABC-123');
+    expect(type(detector, [...'XYZ9', 'Tab'], 5000, 10)).toBe('XYZ9');
+  });
+
+  it('ignores typing slower than the key interval', () => {
+    expect(type(new WedgeDetector(SETTINGS), [...'ABC-123', 'Enter'], 1000, 120)).toBeUndefined();
+  });
+
+  it('starts a new burst after a pause, dropping what a person typed before', () => {
+    const detector = new WedgeDetector(SETTINGS);
+    type(detector, [...'hi'], 1000, 200);
+    expect(type(detector, [...'P-0001', 'Enter'], 3000, 10)).toBe('P-0001');
+  });
+
+  it('ignores bursts shorter than the minimum length', () => {
+    expect(type(new WedgeDetector(SETTINGS), [...'AB', 'Enter'], 1000, 10)).toBeUndefined();
+  });
+
+  it('lets Shift and other named keys pass without breaking the burst', () => {
+    expect(type(new WedgeDetector(SETTINGS), ['Shift', 'A', 'Shift', 'B', '1', '2', 'Enter'], 1000, 10)).toBe('AB12');
+  });
+
+  it('strips the configured prefix and suffix', () => {
+    const detector = new WedgeDetector({ ...SETTINGS, prefix: ']C1', suffix: '#' });
+    expect(type(detector, [...']C1P-0001#', 'Enter'], 1000, 10)).toBe('P-0001');
+  });
+});
+
+describe('stripAffixes', () => {
+  it('only strips affixes that are actually present', () => {
+    expect(stripAffixes('P-0001', { prefix: '~', suffix: '#' })).toBe('P-0001');
+    expect(stripAffixes('~P-0001#', { prefix: '~', suffix: '#' })).toBe('P-0001');
+  });
+});
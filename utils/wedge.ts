@@ -0,0 +1,70 @@
+// Keyboard-wedge scanners (e.g. Zebra ring scanners paired as HID keyboards) "type" a barcode
+// much faster than a person can, then press Enter or Tab. Bursts like that are picked out of
+// ordinary key events so scans work without any field having focus.
+
+export interface WedgeSettings {
+  enabled: boolean;
+  prefix: string; // Stripped when a code starts with it (scanner-configured preamble)
+  suffix: string; // Stripped when a code ends with it
+  maxKeyIntervalMs: number; // Slower keystrokes are a person typing, and start a new burst
+  minLength: number; // Shorter bursts are ignored
+}
+
+export const DEFAULT_WEDGE_SETTINGS: WedgeSettings = {
+  enabled: false,
+  prefix: '',
+  suffix: '',
+  maxKeyIntervalMs: 50,
+  minLength: 4
+};
+
+const WEDGE_KEY = 'zen_wedge_settings';
+
+// Per device: each phone is paired with its own scanner
+export const loadWedgeSettings = (): WedgeSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(WEDGE_KEY) || 'null');
+    return saved && typeof saved === 'object' ? { ...DEFAULT_WEDGE_SETTINGS, ...saved } : DEFAULT_WEDGE_SETTINGS;
+  } catch (e) {
+    return DEFAULT_WEDGE_SETTINGS;
+  }
+};
+
+export const saveWedgeSettings = (settings: WedgeSettings) => {
+  localStorage.setItem(WEDGE_KEY, JSON.stringify(settings));
+};
+
+export const stripAffixes = (code: string, { prefix, suffix }: Pick<WedgeSettings, 'prefix' | 'suffix'>) => {
+  let value = code;
+  if (prefix && value.startsWith(prefix)) value = value.slice(prefix.length);
+  if (suffix && value.endsWith(suffix)) value = value.slice(0, value.length - suffix.length);
+  return value.trim();
+};
+
+const TERMINATORS = ['Enter', 'Tab'];
+
+export class WedgeDetector {
+  private buffer = '';
+  private lastTime = 0;
+
+  constructor(private settings: WedgeSettings) {}
+
+  // Feed every keydown (key name and event time in ms); returns the code when this key ends a burst
+  key(key: string, time: number): string | undefined {
+    const gap = time - this.lastTime;
+    this.lastTime = time;
+
+    if (TERMINATORS.includes(key)) {
+      const code = this.buffer;
+      this.buffer = '';
+      if (gap > this.settings.maxKeyIntervalMs || code.length < this.settings.minLength) return undefined;
+      return stripAffixes(code, this.settings) || undefined;
+    }
+
+    // Shift and other non-printing keys pass through without breaking the burst
+    if (key.length !== 1) return undefined;
+    if (this.buffer && gap > this.settings.maxKeyIntervalMs) this.buffer = '';
+    this.buffer += key;
+    return undefined;
+  }
+}
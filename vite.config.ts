@@ -1,9 +1,40 @@
-
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
+import { VitePWA } from 'vite-plugin-pwa';
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [
+    react(),
+    // The service worker precaches the whole build so the app reloads with no connectivity.
+    // 'prompt': a new version waits until the user accepts it, never mid-count.
+    VitePWA({
+      registerType: 'prompt',
+      manifest: {
+        name: 'EMM 盤點系統',
+        short_name: 'EMM 盤點',
+        description: '離線優先的倉庫盤點系統',
+        lang: 'zh-TW',
+        start_url: './',
+        scope: './',
+        display: 'standalone',
+        orientation: 'portrait',
+        background_color: '#fafaf9',
+        theme_color: '#292524',
+        icons: [
+          { src: 'pwa-192x192.png', sizes: '192x192', type: 'image/png' },
+          { src: 'pwa-512x512.png', sizes: '512x512', type: 'image/png' },
+          { src: 'pwa-512x512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' }
+        ]
+      },
+      workbox: {
+        globPatterns: ['**/*.{js,css,html,svg,png}'],
+        // ExcelJS is lazy-loaded but must still work offline
+        maximumFileSizeToCacheInBytes: 5 * 1024 * 1024
+      }
+    })
+  ],
   base: './', // Important for GitHub Pages relative paths
+  // The master import worker lazy-loads ExcelJS, which needs a code-splitting (ES module) worker build
+  worker: { format: 'es' },
 });